@@ -1,7 +1,7 @@
-import React, { useMemo, useRef, useEffect, useState } from "react";
+import React, { useMemo, useRef, useEffect, useLayoutEffect, useState } from "react";
 import { create } from "zustand";
 import { v4 as uuid } from "uuid";
-import { Save, Plus, Search, Pin, PinOff, ZoomIn, ZoomOut, Download, Cog, Image as ImageIcon, X, Maximize2, Minimize2, Eye, Expand, Shrink, Filter } from "lucide-react";
+import { Save, Plus, Trash2, Undo2, Redo2, History as HistoryIcon, Tags, Search, Pin, PinOff, ZoomIn, ZoomOut, Download, Cog, Image as ImageIcon, X, Maximize2, Minimize2, Eye, Expand, Shrink, Filter, ArrowUp, ArrowDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -9,44 +9,24 @@ import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Document, Packer, Paragraph, TextRun } from "docx";
+import { LEVELS, RELATION_TYPES, type Level, type AtlasCalendar, type AtlasDate, type Cycle, type DerivedField, type Epoch, type Note, type Relation, type RelationType, type TagStyle, type TagStyles, type Trash } from "@/lib/types";
+import { calendarOf, convertDate, createChronology, dateSpan, defaultWeekAnchor, noteInCalendar, periodDate, weekdayOf, deriveDate, deriveNote, absoluteYear, cyclePhases, durationBetween, epochOf, isLeapYear, isUncertain, monthLength, toEpoch, yearRange, type CyclePhase, type Duration, type PeriodGroup, type Span } from "@/lib/chronology";
+import { dateDifference } from "@/lib/dateMath";
+import { parseAtlasDate } from "@/lib/dateParser";
+import { blobToDataURL, dataURLToBlob, isImageRef, openStorage, type ImageAsset, type ImageMeta, type StorageAdapter } from "@/lib/storage";
+import { makeThumbnail, prepareImage, restoreImage } from "@/lib/images";
+import { createDocument, normalizeNote, parseDocument, type FormatIssue, type TimelineDocument } from "@/lib/fileFormat";
+import { createBundle, readBundle } from "@/lib/bundle";
+import { layoutGraph, timeAxis } from "@/lib/graph";
+import { addRelation, dropRelationsTo, linksOf, relationPairs, RELATION_INFO, type NoteLink } from "@/lib/relations";
+import { deleteTag as deleteTagIn, emptyTagFilter, flattenTags, isTagFilterEmpty, matchesTagFilter, mergeTags as mergeTagsIn, renameInFilter, renameTag as renameTagIn, renameTagStyles, styleOf, tagTree, tagUsage, TAG_SEPARATOR, type TagFilter, type TagMode, type TagUsage } from "@/lib/tags";
+import { buildSearchIndex, fieldsOf, searchNotes, snippet, type Range } from "@/lib/search";
+import { appendNotes, applyMerge, defaultChoice, mergeCalendars, planMerge, retargetCalendars, type DuplicateChoice, type FieldChoice, type ImportItem, type MergeChoices, type NoteField } from "@/lib/merge";
+import { emptyHistory, pushHistory, travel, type History } from "@/lib/history";
+import { migrateDate, planMigration, removedMonthsInUse, type CalendarMigration, type MigrationReason } from "@/lib/calendarMigration";
 
 // ------------------ Types ------------------
-const LEVELS = ["ERA","MILLENNIUM","CENTURY","DECADE","YEAR"] as const;
-type Level = typeof LEVELS[number];
-
-type AtlasCalendar = {
-  daysOfWeek: string[];
-  months: { name: string; days: number }[];
-  yearsPerCentury: number;
-  centuriesPerMillennium: number;
-  decadesPerCentury: number;
-};
-
-type AtlasDate = {
-  era?: string;
-  millennium?: number;
-  century?: number;
-  decade?: number;
-  year?: number;
-  month?: number;
-  day?: number;
-  relativeEra?: "AU" | "DU" | "ZERO";
-};
-
-type Note = {
-  id: string;
-  title: string;
-  description?: string;
-  date: AtlasDate;
-  level: Level;
-  images?: string[];
-  pinned?: boolean;
-  weight?: number;
-  createdAt: number;
-  tags?: string[];
-};
-
-type LayoutMode = "ALTERNATE" | "LEFT" | "RIGHT" | "HORIZONTAL";
+type LayoutMode = "ALTERNATE" | "LEFT" | "RIGHT" | "HORIZONTAL" | "GRAPH";
 
 // ------------------ Colors & Shapes ------------------
 const levelStyles: Record<Level, { color: string; marker: (props: any) => JSX.Element; label: string }> = {
@@ -95,23 +75,63 @@ const levelStyles: Record<Level, { color: string; marker: (props: any) => JSX.El
 // ------------------ Store ------------------
 interface TLState {
   notes: Note[];
-  calendar: AtlasCalendar;
+  calendars: AtlasCalendar[];
+  calendar: AtlasCalendar; // calendário de exibição (um dos `calendars`)
   zoom: Level;
   search: string;
-  filters: string[];
+  filters: TagFilter;
   addNote: (n: Omit<Note, "id"|"createdAt">) => void;
+  updateNote: (id: string, patch: Partial<Omit<Note, "id"|"createdAt">>) => void;
+  importDocument: (doc: TimelineDocument, label: string) => void; // substitui a timeline pelo arquivo importado
+  editingId?: string; // nota aberta no diálogo de edição
+  setEditingId: (id?: string) => void;
+  tagStyles: TagStyles;
+  renameTag: (from: string, to: string) => void;
+  mergeTags: (sources: string[], target: string) => void;
+  deleteTag: (tag: string) => void;
+  setTagStyle: (tag: string, style: TagStyle) => void;
+  focus?: { id: string; at: number }; // nota escolhida nos resultados da busca: os cartões até ela se abrem
+  focusNote: (id: string) => void;
   togglePin: (id: string) => void;
-  updateCalendar: (c: Partial<AtlasCalendar>) => void;
+  updateCalendar: (c: Partial<AtlasCalendar>, id?: string, migrate?: (d: AtlasDate) => AtlasDate) => void;
+  addCalendar: (c: Omit<AtlasCalendar, "id">) => void;
+  removeCalendar: (id: string) => void;
+  setDisplayCalendar: (id: string) => void;
   setZoom: (z: Level) => void;
   setSearch: (q: string) => void;
-  setFilters: (f: string[]) => void;
-  removeNote: (id: string) => void;
-  load: () => void;
+  setFilters: (f: TagFilter) => void;
+  removeNote: (id: string) => void; // vai para a lixeira
+  trash: Trash;
+  restoreNote: (id: string) => void;
+  purgeNote: (id: string) => void;
+  emptyTrash: () => void;
+  archiveTimeline: () => void; // "Zerar Timeline": guarda tudo como snapshot na lixeira
+  restoreSnapshot: (id: string) => void;
+  deleteSnapshot: (id: string) => void;
+  load: () => Promise<void>;
+  storageError?: string; // última falha ao ler/gravar, mostrada em uma faixa no topo
+  dismissStorageError: () => void;
+  imageRevision: number; // muda quando a legenda/texto alternativo de uma imagem é editado
   layout: LayoutMode;
   setLayout: (m: LayoutMode) => void;
+  displayEpoch?: string;
+  setDisplayEpoch: (id?: string) => void;
+  showCycles: boolean; // fases dos ciclos do calendário nas notas da timeline
+  setShowCycles: (v: boolean) => void;
+  relativeTo?: string; // id da nota de referência para "123 anos depois de ..."
+  setRelativeTo: (id?: string) => void;
+  history: History<Snapshot>; // notas, calendários e lixeira antes de cada mudança
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
 }
 
+// O que o desfazer/refazer restaura
+type Snapshot = { notes: Note[]; calendars: AtlasCalendar[]; trash: Trash; tagStyles: TagStyles };
+
 const defaultCalendar: AtlasCalendar = {
+  id: "atlas",
+  name: "Calendário de Atlas",
+  anchorDay: 0,
   daysOfWeek: ["Dya","Lun","Var","Tyr","Kyr","Saa","Nox"],
   months: [
     { name: "Lume", days: 30 }, { name: "Vera", days: 30 }, { name: "Nara", days: 30 }, { name: "Siri", days: 30 },
@@ -121,116 +141,466 @@ const defaultCalendar: AtlasCalendar = {
   yearsPerCentury: 100,
   centuriesPerMillennium: 10,
   decadesPerCentury: 10,
+  epochs: [{ id: "uniao", name: "União", before: "a.U.", after: "", offset: 0 }],
 };
 
+// Backend de armazenamento, aberto no primeiro uso (normalmente pelo load())
+let storagePromise: Promise<StorageAdapter> | undefined;
+const getStorage = () => storagePromise ??= openStorage();
+
+function reportStorageError(err: unknown){
+  const reason = err instanceof Error ? err.message : String(err);
+  useTL.setState({ storageError: `Não foi possível salvar as últimas alterações (${reason}).` });
+}
+
+// As ações da store atualizam a tela na hora; a gravação segue em segundo plano
+function saveNotes(notes: Note[]){
+  getStorage().then(s => s.saveNotes(notes)).catch(reportStorageError);
+}
+
+function saveCalendars(calendars: AtlasCalendar[]){
+  getStorage().then(s => s.saveCalendars(calendars)).catch(reportStorageError);
+}
+
+function saveTrash(trash: Trash){
+  getStorage().then(s => s.saveTrash(trash)).catch(reportStorageError);
+}
+
+function saveTagStyles(styles: TagStyles){
+  getStorage().then(s => s.saveTagStyles(styles)).catch(reportStorageError);
+}
+
+// Reduz a imagem, grava na biblioteca (uma vez por conteúdo) e devolve o valor a guardar em note.images
+function storeImage(blob: Blob){
+  return prepareImage(blob)
+    .then(async asset => (await getStorage()).putImage(asset))
+    .catch(err => { reportStorageError(err); throw err; });
+}
+
+// Notas vindas do armazenamento ou de um arquivo: completa o formato antigo e os campos derivados
+function prepareNotes(notes: Note[], calendars: AtlasCalendar[]){
+  return notes.map((n) => deriveNote(normalizeNote(n), calendars));
+}
+
+const LAYOUTS: LayoutMode[] = ["ALTERNATE", "LEFT", "RIGHT", "HORIZONTAL", "GRAPH"];
+
+// O calendário de exibição continua o mesmo objeto da lista depois de cada alteração
+function withDisplay(calendars: AtlasCalendar[], displayId: string){
+  return { calendars, calendar: calendars.find(c => c.id === displayId) ?? calendars[0] };
+}
+
+// Passo do histórico para uma mudança (o estado de antes fica guardado)
+function remember(s: TLState, label: string){
+  return { history: pushHistory(s.history, label, { notes: s.notes, calendars: s.calendars, trash: s.trash, tagStyles: s.tagStyles }) };
+}
+
+// Volta para um estado do histórico; referências a notas que não existem mais são limpas
+function restore(s: TLState, steps: number): Partial<TLState> {
+  const r = travel(s.history, { notes: s.notes, calendars: s.calendars, trash: s.trash, tagStyles: s.tagStyles }, steps);
+  if (!r) return {};
+  const { notes, calendars, trash, tagStyles } = r.state;
+  if (notes !== s.notes) saveNotes(notes);
+  if (calendars !== s.calendars) saveCalendars(calendars);
+  if (trash !== s.trash) saveTrash(trash);
+  if (tagStyles !== s.tagStyles) saveTagStyles(tagStyles);
+  const keep = (id?: string) => id && notes.some((n) => n.id === id) ? id : undefined;
+  return { history: r.history, notes, trash, tagStyles, ...withDisplay(calendars, s.calendar.id), relativeTo: keep(s.relativeTo), editingId: keep(s.editingId) };
+}
+
+const quoted = (title: string) => `“${title}”`;
+
 const useTL = create<TLState>((set, get) => ({
   notes: [],
+  calendars: [defaultCalendar],
   calendar: defaultCalendar,
   zoom: "YEAR",
   search: "",
-  filters: [],
+  filters: emptyTagFilter,
   layout: "ALTERNATE",
   setLayout: (m) => set({ layout: m }),
+  dismissStorageError: () => set({ storageError: undefined }),
+  imageRevision: 0,
+  setDisplayEpoch: (id) => set({ displayEpoch: id }),
+  showCycles: false,
+  setShowCycles: (v) => set({ showCycles: v }),
+  setRelativeTo: (id) => set({ relativeTo: id }),
   addNote: (n) => set((s) => {
-    const newNote: Note = { id: uuid(), createdAt: Date.now(), ...n };
+    const newNote: Note = deriveNote({ id: uuid(), createdAt: Date.now(), ...n }, s.calendars);
     const notes = [...s.notes, newNote];
-    localStorage.setItem("atlas_timeline_notes", JSON.stringify(notes));
-    return { notes };
+    saveNotes(notes);
+    return { notes, ...remember(s, `Adicionou ${quoted(newNote.title)}`) };
+  }),
+  updateNote: (id, patch) => set((s) => {
+    const before = s.notes.find((x) => x.id === id);
+    if (!before) return {};
+    const notes = s.notes.map((x) => x.id === id ? deriveNote({ ...x, ...patch }, s.calendars) : x);
+    saveNotes(notes);
+    return { notes, ...remember(s, `Editou ${quoted(before.title)}`) };
+  }),
+  importDocument: (doc, label) => set((s) => {
+    // arquivos da versão 1 não trazem calendário: as notas entram nos calendários atuais
+    const calendars = doc.calendars.length ? doc.calendars.map((c) => ({ ...defaultCalendar, ...c })) : s.calendars;
+    const notes = prepareNotes(doc.notes, calendars);
+    saveNotes(notes);
+    if (calendars !== s.calendars) saveCalendars(calendars);
+    const keep = (id?: string) => id && notes.some((n) => n.id === id) ? id : undefined;
+    const { layout, displayCalendar, displayEpoch, showCycles, tagStyles } = doc.settings;
+    const display = withDisplay(calendars, displayCalendar ?? s.calendar.id);
+    if (tagStyles) saveTagStyles(tagStyles);
+    return {
+      notes,
+      tagStyles: tagStyles ?? s.tagStyles,
+      ...display,
+      layout: LAYOUTS.includes(layout as LayoutMode) ? layout as LayoutMode : s.layout,
+      displayEpoch: display.calendar.epochs.some((ep) => ep.id === displayEpoch) ? displayEpoch : undefined,
+      showCycles: showCycles ?? s.showCycles,
+      relativeTo: keep(s.relativeTo),
+      editingId: keep(s.editingId),
+      ...remember(s, label),
+    };
   }),
+  setEditingId: (id) => set({ editingId: id }),
+  tagStyles: {},
+  renameTag: (from, to) => set((s) => {
+    to = to.trim();
+    if (!to || to === from) return {};
+    const notes = renameTagIn(s.notes, from, to);
+    const tagStyles = renameTagStyles(s.tagStyles, from, to);
+    saveNotes(notes);
+    saveTagStyles(tagStyles);
+    return { notes, tagStyles, filters: renameInFilter(s.filters, from, to), ...remember(s, `Renomeou a tag ${quoted(from)} para ${quoted(to)}`) };
+  }),
+  mergeTags: (sources, target) => set((s) => {
+    target = target.trim();
+    const merged = sources.filter((t) => t !== target);
+    if (!target || !merged.length) return {};
+    const notes = mergeTagsIn(s.notes, merged, target);
+    const tagStyles = merged.reduce((st, t) => renameTagStyles(st, t, target), s.tagStyles);
+    saveNotes(notes);
+    saveTagStyles(tagStyles);
+    return {
+      notes, tagStyles,
+      filters: merged.reduce((f, t) => renameInFilter(f, t, target), s.filters),
+      ...remember(s, `Juntou ${merged.map(quoted).join(", ")} em ${quoted(target)}`),
+    };
+  }),
+  deleteTag: (tag) => set((s) => {
+    const notes = deleteTagIn(s.notes, tag);
+    const tagStyles = renameTagStyles(s.tagStyles, tag);
+    saveNotes(notes);
+    saveTagStyles(tagStyles);
+    return { notes, tagStyles, filters: renameInFilter(s.filters, tag), ...remember(s, `Excluiu a tag ${quoted(tag)}`) };
+  }),
+  setTagStyle: (tag, style) => set((s) => {
+    const { [tag]: _, ...rest } = s.tagStyles;
+    const tagStyles = style.color || style.icon ? { ...rest, [tag]: style } : rest;
+    saveTagStyles(tagStyles);
+    return { tagStyles, ...remember(s, `Mudou a aparência da tag ${quoted(tag)}`) };
+  }),
+  focusNote: (id) => set({ focus: { id, at: Date.now() } }),
   togglePin: (id) => set((s) => {
+    const note = s.notes.find((x) => x.id === id);
+    if (!note) return {};
     const notes = s.notes.map((x) => x.id === id ? { ...x, pinned: !x.pinned } : x);
-    localStorage.setItem("atlas_timeline_notes", JSON.stringify(notes));
-    return { notes };
+    saveNotes(notes);
+    return { notes, ...remember(s, `${note.pinned ? "Desafixou" : "Fixou"} ${quoted(note.title)}`) };
   }),
   removeNote: (id) => set((s) => {
+    const note = s.notes.find((x) => x.id === id);
+    if (!note) return {};
     const notes = s.notes.filter((x) => x.id !== id);
-    localStorage.setItem("atlas_timeline_notes", JSON.stringify(notes));
-    return { notes };
+    const trash = { ...s.trash, notes: [{ note, deletedAt: Date.now() }, ...s.trash.notes] };
+    saveNotes(notes);
+    saveTrash(trash);
+    return {
+      ...remember(s, `Excluiu ${quoted(note.title)}`),
+      notes,
+      trash,
+      relativeTo: s.relativeTo === id ? undefined : s.relativeTo,
+      editingId: s.editingId === id ? undefined : s.editingId,
+    };
+  }),
+  updateCalendar: (c, id, migrate) => set((s) => {
+    const target = id ?? s.calendar.id;
+    const calendars = s.calendars.map((x) => x.id === target ? { ...x, ...c, id: x.id } : x);
+    // meses removidos ou reordenados: as datas do calendário passam pela migração escolhida
+    const fix = (d: AtlasDate) => migrate && calendarOf(d, s.calendars).id === target ? migrate(d) : d;
+    // mudar anos por século etc. muda os campos derivados de todas as notas
+    const notes = s.notes.map((x) => deriveNote({ ...x, date: fix(x.date), endDate: x.endDate && fix(x.endDate) }, calendars));
+    saveCalendars(calendars);
+    saveNotes(notes);
+    const name = calendars.find((x) => x.id === target)?.name ?? "";
+    return { ...withDisplay(calendars, s.calendar.id), notes, ...remember(s, `Alterou o calendário ${quoted(name)}`) };
+  }),
+  addCalendar: (c) => set((s) => {
+    const calendars = [...s.calendars, { ...c, id: uuid() }];
+    saveCalendars(calendars);
+    return { ...withDisplay(calendars, s.calendar.id), ...remember(s, `Criou o calendário ${quoted(c.name)}`) };
   }),
-  updateCalendar: (c) => set((s) => {
-    const calendar = { ...s.calendar, ...c };
-    localStorage.setItem("atlas_timeline_calendar", JSON.stringify(calendar));
-    return { calendar };
+  removeCalendar: (id) => set((s) => {
+    const removed = s.calendars.find((x) => x.id === id);
+    if (!removed || removed.id === s.calendars[0].id) return {};
+    const calendars = s.calendars.filter((x) => x.id !== id);
+    // as datas registradas nele passam para o calendário principal, no mesmo dia absoluto
+    const move = (d: AtlasDate) => d.calendar === id ? convertDate(d, removed, calendars[0]) : d;
+    const notes = s.notes.map((x) => ({ ...x, date: move(x.date), endDate: x.endDate && move(x.endDate) }));
+    saveCalendars(calendars);
+    saveNotes(notes);
+    return { ...withDisplay(calendars, s.calendar.id), notes, ...remember(s, `Removeu o calendário ${quoted(removed.name)}`) };
   }),
+  trash: { notes: [], snapshots: [] },
+  restoreNote: (id) => set((s) => {
+    const item = s.trash.notes.find((x) => x.note.id === id);
+    if (!item) return {};
+    const notes = [...s.notes, deriveNote(item.note, s.calendars)];
+    const trash = { ...s.trash, notes: s.trash.notes.filter((x) => x !== item) };
+    saveNotes(notes);
+    saveTrash(trash);
+    return { notes, trash, ...remember(s, `Restaurou ${quoted(item.note.title)}`) };
+  }),
+  purgeNote: (id) => set((s) => {
+    const item = s.trash.notes.find((x) => x.note.id === id);
+    if (!item) return {};
+    const trash = { ...s.trash, notes: s.trash.notes.filter((x) => x !== item) };
+    const notes = dropRelationsTo(s.notes, new Set([id]));
+    saveTrash(trash);
+    if (notes.some((n, i) => n !== s.notes[i])) saveNotes(notes);
+    return { trash, notes, ...remember(s, `Apagou ${quoted(item.note.title)} da lixeira`) };
+  }),
+  emptyTrash: () => set((s) => {
+    const trash = { ...s.trash, notes: [] };
+    const notes = dropRelationsTo(s.notes, new Set(s.trash.notes.map((x) => x.note.id)));
+    saveTrash(trash);
+    if (notes.some((n, i) => n !== s.notes[i])) saveNotes(notes);
+    return { trash, notes, ...remember(s, "Esvaziou a lixeira") };
+  }),
+  archiveTimeline: () => set((s) => {
+    const snapshot = { id: uuid(), label: "Timeline zerada", createdAt: Date.now(), notes: s.notes, calendars: s.calendars };
+    const trash = { ...s.trash, snapshots: [snapshot, ...s.trash.snapshots] };
+    saveNotes([]);
+    saveTrash(trash);
+    return { notes: [], trash, relativeTo: undefined, editingId: undefined, ...remember(s, "Zerou a timeline") };
+  }),
+  restoreSnapshot: (id) => set((s) => {
+    const snapshot = s.trash.snapshots.find((x) => x.id === id);
+    if (!snapshot) return {};
+    // a timeline atual não se perde: vira outro snapshot no lugar do restaurado
+    const current = s.notes.length
+      ? [{ id: uuid(), label: `Antes de restaurar ${quoted(snapshot.label)}`, createdAt: Date.now(), notes: s.notes, calendars: s.calendars }]
+      : [];
+    const trash = { ...s.trash, snapshots: [...current, ...s.trash.snapshots.filter((x) => x !== snapshot)] };
+    const calendars = snapshot.calendars.map((c) => ({ ...defaultCalendar, ...c }));
+    const notes = prepareNotes(snapshot.notes, calendars);
+    saveNotes(notes);
+    saveCalendars(calendars);
+    saveTrash(trash);
+    return {
+      notes, trash, ...withDisplay(calendars, s.calendar.id), relativeTo: undefined, editingId: undefined,
+      ...remember(s, `Restaurou a timeline de ${new Date(snapshot.createdAt).toLocaleString("pt-BR")}`),
+    };
+  }),
+  deleteSnapshot: (id) => set((s) => {
+    const trash = { ...s.trash, snapshots: s.trash.snapshots.filter((x) => x.id !== id) };
+    saveTrash(trash);
+    return { trash, ...remember(s, "Apagou uma timeline guardada") };
+  }),
+  history: emptyHistory(),
+  undo: (steps = 1) => set((s) => restore(s, steps)),
+  redo: (steps = 1) => set((s) => restore(s, -steps)),
+  setDisplayCalendar: (id) => set((s) => ({ ...withDisplay(s.calendars, id), displayEpoch: undefined })),
   setZoom: (z) => set({ zoom: z }),
   setSearch: (q) => set({ search: q }),
   setFilters: (f) => set({ filters: f }),
-  load: () => {
+  load: async () => {
     try {
-      let notes = JSON.parse(localStorage.getItem("atlas_timeline_notes") || "[]");
-      notes = notes.map((n: Note) => ({
-        ...n,
-        date: {
-          ...n.date,
-          relativeEra: n.date.relativeEra || (n.date.year < 0 ? "AU" : "DU"),
-        },
-      }));
-      const calendar = JSON.parse(localStorage.getItem("atlas_timeline_calendar") || "null") || defaultCalendar;
-      set({ notes, calendar });
-    } catch {}
+      const storage = await getStorage();
+      // calendários antigos foram salvos sem id, nome nem épocas: completa com o padrão
+      const saved = await storage.loadCalendars();
+      const calendars = (saved ?? [defaultCalendar]).map((c) => ({ ...defaultCalendar, ...c }));
+      const notes = prepareNotes(await storage.loadNotes(), calendars);
+      const trash = await storage.loadTrash();
+      const tagStyles = await storage.loadTagStyles();
+      set({ notes, trash, tagStyles, ...withDisplay(calendars, get().calendar.id) });
+    } catch (err) {
+      set({ storageError: `Não foi possível carregar a timeline (${err instanceof Error ? err.message : String(err)}).` });
+    }
   },
 }));
 
 // ------------------ Filters UI ------------------
+// Filtro por tags: clicar inclui, "−" exclui; uma tag-mãe ("Reinos") vale também para as filhas ("Reinos/Varn")
 function FilterBox(){
-  const { filters, setFilters, notes } = useTL();
+  const { filters, setFilters, notes, tagStyles } = useTL();
   const [open, setOpen] = useState(false);
-  const allTags = Array.from(new Set(notes.flatMap(n=>n.tags||[])));
-
-  function toggleTag(tag: string){
-    if(filters.includes(tag)) setFilters(filters.filter(f=>f!==tag));
-    else setFilters([...filters, tag]);
+  const tags = useMemo(()=> flattenTags(tagTree(notes)), [notes]);
+  const active = filters.include.length + filters.exclude.length;
+
+  function toggleTag(list: "include" | "exclude", tag: string){
+    const other = list === "include" ? "exclude" : "include";
+    const on = filters[list].includes(tag);
+    setFilters({
+      ...filters,
+      [list]: on ? filters[list].filter(f=>f!==tag) : [...filters[list], tag],
+      [other]: filters[other].filter(f=>f!==tag),
+    });
   }
 
   return (
     <DropdownMenu open={open} onOpenChange={setOpen}>
       <DropdownMenuTrigger asChild>
-        <Button variant="outline" className="flex items-center gap-2"><Filter size={16}/>Filtros</Button>
+        <Button variant="outline" className="flex items-center gap-2"><Filter size={16}/>Filtros{active ? ` (${active})` : ""}</Button>
       </DropdownMenuTrigger>
-      <DropdownMenuContent align="end">
-        {allTags.length ? allTags.map(tag=>(
-          <DropdownMenuItem key={tag} onClick={()=>toggleTag(tag)}>
-            <span className={filters.includes(tag)?"font-bold text-blue-600":""}>{tag}</span>
-          </DropdownMenuItem>
-        )): <div className="px-2 py-1 text-xs text-muted-foreground">(sem tags)</div>}
+      <DropdownMenuContent align="end" className="max-h-96 overflow-auto">
+        <div className="flex items-center gap-1 px-2 py-1 text-xs">
+          <span className="text-muted-foreground mr-1">Notas com</span>
+          {(["ANY", "ALL"] as TagMode[]).map(m=>(
+            <Button key={m} size="sm" variant={filters.mode === m ? "default" : "outline"} className="h-6 px-2 text-xs" onClick={()=>setFilters({ ...filters, mode: m })}>
+              {m === "ANY" ? "qualquer uma" : "todas"}
+            </Button>
+          ))}
+        </div>
+        {tags.length ? tags.map(t=>{
+          const included = filters.include.includes(t.path), excluded = filters.exclude.includes(t.path);
+          return (
+            <DropdownMenuItem key={t.path} onSelect={e=>{ e.preventDefault(); toggleTag("include", t.path); }} style={{ paddingLeft: 8 + t.depth * 14 }}>
+              <span className="h-2.5 w-2.5 rounded-full" style={{ background: styleOf(t.path, tagStyles)?.color ?? "transparent" }} />
+              <span className={`flex-1 ${included ? "font-bold text-blue-600" : excluded ? "line-through text-red-600" : ""}`}>{styleOf(t.path, tagStyles)?.icon} {t.name}</span>
+              <span className="text-xs text-muted-foreground">{t.count}</span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className={`h-6 w-6 ${excluded ? "text-red-600" : ""}`}
+                title={excluded ? "Deixar de excluir" : "Esconder notas com esta tag"}
+                onClick={e=>{ e.stopPropagation(); toggleTag("exclude", t.path); }}
+              >−</Button>
+            </DropdownMenuItem>
+          );
+        }) : <div className="px-2 py-1 text-xs text-muted-foreground">(sem tags)</div>}
       </DropdownMenuContent>
     </DropdownMenu>
   );
 }
 
+// Filtros ativos como chips removíveis, logo abaixo da barra
+function FilterChips(){
+  const { filters, setFilters } = useTL();
+  if(isTagFilterEmpty(filters)) return null;
+  const remove = (list: "include" | "exclude", tag: string) => setFilters({ ...filters, [list]: filters[list].filter(f=>f!==tag) });
+
+  return (
+    <div className="w-full flex flex-wrap items-center justify-center gap-1 text-xs">
+      {filters.include.length > 1 && (
+        <button
+          className="text-muted-foreground underline decoration-dotted"
+          onClick={()=>setFilters({ ...filters, mode: filters.mode === "ANY" ? "ALL" : "ANY" })}
+          title="Alternar entre qualquer uma e todas"
+        >{filters.mode === "ANY" ? "qualquer uma de" : "todas de"}</button>
+      )}
+      {filters.include.map(tag=>(
+        <TagChip key={`+${tag}`} tag={tag}>
+          <button onClick={()=>remove("include", tag)} title="Remover filtro"><X size={12}/></button>
+        </TagChip>
+      ))}
+      {filters.exclude.map(tag=>(
+        <span key={`-${tag}`} className="inline-flex items-center gap-1 rounded-full bg-red-100 text-red-800 px-2 py-0.5">
+          sem {tag}
+          <button onClick={()=>remove("exclude", tag)} title="Remover filtro"><X size={12}/></button>
+        </span>
+      ))}
+      <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={()=>setFilters(emptyTagFilter)}>Limpar filtros</Button>
+    </div>
+  );
+}
+
 // ------------------ Helpers ------------------
-function formatAtlasDate(d: AtlasDate, cal: AtlasCalendar, level: Level) {
+function formatAtlasDate(date: AtlasDate, cal: AtlasCalendar, level: Level, displayEpoch?: string) {
+  const d = displayEpoch ? toEpoch(date, displayEpoch, cal) : date;
+  const epoch = epochOf(d, cal);
+  const zero = d.relativeEra === "ZERO" || d.year === 0;
+  const abbr = d.relativeEra === "AU" && !zero ? epoch.before : epoch.after;
+  const suffix = abbr ? ` ${abbr}` : "";
+  const circa = d.approximate ? "c. " : "";
   const parts: string[] = [];
   if (level === "ERA") {
     if (d.era) parts.push(`${d.era}`);
   } else if (level === "MILLENNIUM") {
-    if (d.millennium != null) parts.push(`${d.millennium}º milênio`);
+    if (d.millennium != null) parts.push(`${circa}${d.millennium}º milênio${suffix}`);
   } else if (level === "CENTURY") {
-    if (d.century != null) parts.push(`Século ${d.century} (${toRoman(d.century)})`);
+    if (d.century != null) parts.push(`${circa}Século ${d.century} (${toRoman(d.century)})${suffix}`);
   } else if (level === "DECADE") {
-    if (d.decade != null) parts.push(`Década de ${d.decade}`);
+    if (d.decade != null) parts.push(`${circa}Década de ${d.decade}${suffix}`);
+  } else if (level === "YEAR" && d.latestYear != null) {
+    // janela de incerteza, da ponta mais antiga à mais recente: "entre 250 e 200 a.U." (abreviação uma vez só quando as duas coincidem)
+    const label = (y: number) => {
+      const a = y < 0 ? epoch.before : epoch.after;
+      return { num: Math.abs(y) >= 10000 ? Math.abs(y).toLocaleString("pt-BR") : String(Math.abs(y)), suffix: a ? ` ${a}` : "" };
+    };
+    const from = label(absoluteYear(d.year ?? 0, d.relativeEra)), to = label(d.latestYear);
+    parts.push(from.suffix === to.suffix
+      ? `${circa}entre ${from.num} e ${to.num}${to.suffix}`
+      : `${circa}entre ${from.num}${from.suffix} e ${to.num}${to.suffix}`);
   } else if (level === "YEAR") {
-    if (d.year != null) {
-      let formatted = String(d.year);
+    if (d.year != null || d.relativeEra === "ZERO") {
+      const year = d.year ?? 0;
+      let formatted = String(year);
 
       // só formata com separador de milhar se for >= 10000
-      if (Math.abs(d.year) >= 10000) {
-        formatted = d.year.toLocaleString("pt-BR");
+      if (Math.abs(year) >= 10000) {
+        formatted = year.toLocaleString("pt-BR");
       }
 
       // ano 0 é caso especial
-      if (d.relativeEra === "ZERO" || d.year === 0) {
-        parts.push("0");
-      } else {
-        const suffix = d.relativeEra === "AU" ? " a.U." : "";
-        parts.push(`${formatted}${suffix}`);
-      }
+      const yearText = `${zero ? "0" : formatted}${suffix}`;
+
+      // com mês/dia: "12 de Lume de 340 a.U." e o dia da semana quando a data é completa;
+      // dias intercalares não têm mês: "Festa da Colheita de 340 a.U."
+      const festival = d.intercalary != null ? cal.intercalaryDays?.[d.intercalary]?.name : undefined;
+      const month = d.month != null ? cal.months[d.month - 1]?.name : undefined;
+      parts.push(circa + (festival ? `${festival} de ${yearText}` : !month ? yearText : d.day != null ? `${d.day} de ${month} de ${yearText}` : `${month} de ${yearText}`));
+      const weekday = weekdayOf(d, cal);
+      if (weekday) parts.push(weekday);
     }
   }
   return parts.join(" • ");
 }
 
 
+// Data mais específica disponível (ano completo, senão século/milênio, senão a era)
+function formatFullDate(d: AtlasDate, cal: AtlasCalendar) {
+  return formatAtlasDate(d, cal, "YEAR") || formatAtlasDate(d, cal, d.century != null ? "CENTURY" : "MILLENNIUM") || d.era || "";
+}
+
+// "Lua Prata: Cheia" ou, sem fases nomeadas, "Cometa: dia 12 de 76"
+function formatCyclePhase(p: CyclePhase) {
+  return `${p.cycle.name}: ${p.name ?? `dia ${p.dayInCycle + 1} de ${p.cycle.period}`}`;
+}
+
+// "123 anos depois de Fundação de Vera" (datas no mesmo calendário)
+function formatRelative(date: AtlasDate, ref: Note, cal: AtlasCalendar) {
+  const diff = dateDifference(ref.date, date, cal);
+  if (!diff) return undefined;
+  if (diff.sign === 0) return `na mesma data de ${ref.title}`;
+  return `${formatDuration(diff.duration)} ${diff.sign > 0 ? "depois" : "antes"} de ${ref.title}`;
+}
+
+function formatDuration(d: Duration) {
+  const parts: string[] = [];
+  if (d.years) parts.push(`${d.years} ${d.years === 1 ? "ano" : "anos"}`);
+  if (d.months) parts.push(`${d.months} ${d.months === 1 ? "mês" : "meses"}`);
+  if (d.days) parts.push(`${d.days} ${d.days === 1 ? "dia" : "dias"}`);
+  if (!parts.length) return "menos de um dia";
+  return parts.length > 1 ? parts.slice(0, -1).join(", ") + " e " + parts[parts.length - 1] : parts[0];
+}
+
+// Data da nota; períodos saem como "início – fim (duração)"
+function formatNoteDate(n: Note, cal: AtlasCalendar, level: Level = n.level, displayEpoch?: string) {
+  const start = formatAtlasDate(n.date, cal, level, displayEpoch);
+  if (!n.endDate) return start;
+  const end = formatAtlasDate(n.endDate, cal, level, displayEpoch);
+  const duration = durationBetween(n.date, n.endDate, cal);
+  return `${start} – ${end}` + (duration ? ` (${formatDuration(duration)})` : "");
+}
+
 function toRoman(num:number): string {
   if(num <= 0) return String(num);
   const romans: [number,string][] = [
@@ -246,20 +616,96 @@ function toRoman(num:number): string {
   return result;
 }
 
+// Imagens da biblioteca ("img:<id>") e suas URLs de objeto, carregadas uma vez por sessão
+const imageAssets = new Map<string, Promise<ImageAsset | undefined>>();
+const imageUrls = new Map<string, Promise<string | undefined>>(); // chave: "thumb|" ou "full|" + ref
+
+function loadImageAsset(src: string){
+  if(!imageAssets.has(src)) imageAssets.set(src, getStorage().then(s => s.getImage(src)));
+  return imageAssets.get(src)!;
+}
+
+// Imagens gravadas antes das miniaturas ganham a sua no primeiro uso
+async function thumbnailOf(src: string, asset: ImageAsset){
+  if(asset.thumb) return asset.thumb;
+  const thumb = await makeThumbnail(asset.blob);
+  if(!thumb) return asset.blob;
+  imageAssets.set(src, Promise.resolve({ ...asset, thumb }));
+  getStorage().then(s => s.updateImage(src, { thumb })).catch(() => {}); // se falhar, gera de novo na próxima vez
+  return thumb;
+}
+
+function loadImageUrl(src: string, variant: "thumb" | "full"){
+  const key = `${variant}|${src}`;
+  if(!imageUrls.has(key)) imageUrls.set(key, loadImageAsset(src).then(async asset => {
+    if(!asset) return undefined;
+    return URL.createObjectURL(variant === "thumb" ? await thumbnailOf(src, asset) : asset.blob);
+  }));
+  return imageUrls.get(key)!;
+}
+
+// Legenda e texto alternativo; as imagens abertas na tela releem a biblioteca
+function updateImageMeta(src: string, meta: ImageMeta){
+  return getStorage().then(s => s.updateImage(src, meta)).then(() => {
+    imageAssets.delete(src);
+    useTL.setState(s => ({ imageRevision: s.imageRevision + 1 }));
+  }).catch(reportStorageError);
+}
+
+function useImageAsset(src: string){
+  const revision = useTL(s => s.imageRevision);
+  const [asset, setAsset] = useState<ImageAsset>();
+  useEffect(() => {
+    if(!isImageRef(src)) { setAsset(undefined); return; }
+    let alive = true;
+    loadImageAsset(src).then(a => { if(alive) setAsset(a); }, () => {});
+    return () => { alive = false; };
+  }, [src, revision]);
+  return asset;
+}
+
+function useImageSrc(src: string, variant: "thumb" | "full" = "full"){
+  const [url, setUrl] = useState(isImageRef(src) ? undefined : src);
+  useEffect(() => {
+    if(!isImageRef(src)) { setUrl(src); return; }
+    let alive = true;
+    loadImageUrl(src, variant).then(u => { if(alive) setUrl(u); }, () => {});
+    return () => { alive = false; };
+  }, [src, variant]);
+  return url;
+}
+
+// `variant="thumb"` nos cards: a miniatura em vez do original
+function StoredImage({ src, variant, alt, ...props }: React.ImgHTMLAttributes<HTMLImageElement> & { src: string, variant?: "thumb" | "full" }){
+  const url = useImageSrc(src, variant);
+  const asset = useImageAsset(src);
+  return url
+    ? <img src={url} alt={asset?.alt || alt || "imagem"} title={asset?.caption} loading="lazy" {...props} />
+    : <div className={`${props.className ?? ""} bg-muted animate-pulse`} />;
+}
+
+function ImageCaption({ src, className = "" }:{ src: string, className?: string }){
+  const asset = useImageAsset(src);
+  if(!asset?.caption) return null;
+  return <div className={`text-xs text-muted-foreground ${className}`}>{asset.caption}</div>;
+}
+
 function ImagePreview({ src, alt }:{ src:string, alt?:string }){
   const [open, setOpen] = useState(false);
   return (
     <>
-      <img
+      <StoredImage
         src={src}
-        alt={alt || "imagem"}
+        variant="thumb"
+        alt={alt}
         className="w-full h-20 object-cover rounded cursor-pointer hover:opacity-80 transition"
         onClick={()=>setOpen(true)}
       />
       {open && (
         <Dialog open={open} onOpenChange={setOpen}>
           <DialogContent className="max-w-3xl bg-black p-2">
-            <img src={src} alt={alt || "imagem"} className="max-h-[80vh] w-auto mx-auto object-contain" />
+            <StoredImage src={src} alt={alt} className="max-h-[80vh] w-auto mx-auto object-contain" />
+            <ImageCaption src={src} className="text-center text-gray-300 text-sm" />
           </DialogContent>
         </Dialog>
       )}
@@ -267,10 +713,102 @@ function ImagePreview({ src, alt }:{ src:string, alt?:string }){
   );
 }
 
+// Biblioteca de imagens: todas as imagens guardadas e as que as notas usam (data URLs inclusive)
+function GalleryDialog({ onPick }:{ onPick: (src: string) => void }){
+  const { notes } = useTL();
+  const [open, setOpen] = useState(false);
+  const [stored, setStored] = useState<string[]>([]);
+  const [selected, setSelected] = useState<string>();
+  const [caption, setCaption] = useState("");
+  const [alt, setAlt] = useState("");
+  const asset = useImageAsset(selected ?? "");
+
+  useEffect(() => {
+    if(!open) return;
+    getStorage().then(s => s.listImages()).then(list => {
+      setStored(list.sort((a, b) => b.asset.createdAt - a.asset.createdAt).map(x => x.ref));
+    }).catch(reportStorageError);
+  }, [open]);
+  useEffect(() => { setCaption(asset?.caption ?? ""); setAlt(asset?.alt ?? ""); }, [asset]);
+
+  const usage = useMemo(() => {
+    const count = new Map<string, number>();
+    notes.forEach(n => new Set(n.images ?? []).forEach(src => count.set(src, (count.get(src) ?? 0) + 1)));
+    return count;
+  }, [notes]);
+  const items = Array.from(new Set([...stored, ...usage.keys()]));
+
+  function pick(){
+    if(!selected) return;
+    onPick(selected);
+    setOpen(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(o)=>{ setOpen(o); if(!o) setSelected(undefined); }}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="flex items-center gap-2"><ImageIcon size={16}/>Galeria</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Galeria de imagens</DialogTitle>
+        </DialogHeader>
+        {!items.length && <div className="text-sm text-muted-foreground">Nenhuma imagem ainda.</div>}
+        <div className="grid grid-cols-3 gap-4">
+          <div className="col-span-2 grid grid-cols-4 gap-2 content-start">
+            {items.map(src => (
+              <button key={src} type="button" onClick={()=>setSelected(src)} className={`relative rounded overflow-hidden border-2 ${selected===src ? "border-primary" : "border-transparent"}`}>
+                <StoredImage src={src} variant="thumb" className="w-full h-20 object-cover" />
+                <span className="absolute bottom-0 right-0 text-[10px] px-1 bg-black/60 text-white rounded-tl">{usage.get(src) ?? 0}</span>
+              </button>
+            ))}
+          </div>
+          {selected && (
+            <div className="space-y-2">
+              <StoredImage src={selected} variant="thumb" className="w-full max-h-48 object-contain rounded" />
+              <div className="text-xs text-muted-foreground">
+                {usage.get(selected) ? `Usada em ${usage.get(selected)} nota(s)` : "Não usada em nenhuma nota"}
+                {asset?.width && ` • ${asset.width}×${asset.height}px`}
+                {asset && ` • ${Math.round(asset.blob.size / 1024)} KB`}
+              </div>
+              {isImageRef(selected) ? (
+                <>
+                  <div>
+                    <label className="text-xs text-muted-foreground">Legenda</label>
+                    <Input value={caption} onChange={e=>setCaption(e.target.value)} />
+                  </div>
+                  <div>
+                    <label className="text-xs text-muted-foreground">Texto alternativo</label>
+                    <Input value={alt} onChange={e=>setAlt(e.target.value)} placeholder="Descreva a imagem" />
+                  </div>
+                  <Button size="sm" variant="outline" disabled={caption === (asset?.caption ?? "") && alt === (asset?.alt ?? "")}
+                    onClick={()=>updateImageMeta(selected, { caption: caption.trim() || undefined, alt: alt.trim() || undefined })}>
+                    Salvar legenda
+                  </Button>
+                </>
+              ) : (
+                <div className="text-xs text-muted-foreground">Imagem guardada dentro da nota: sem legenda.</div>
+              )}
+              <div><Button size="sm" onClick={pick}>Usar nesta nota</Button></div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 // ------------------ Components ------------------
 function Toolbar() {
-  const { zoom, setZoom, setSearch, notes, layout, setLayout } = useTL();
+  const { zoom, setZoom, setSearch, notes, archiveTimeline, layout, setLayout, calendar, calendars, setDisplayCalendar, displayEpoch, setDisplayEpoch, showCycles, setShowCycles, relativeTo, setRelativeTo } = useTL();
+  const viewNotes = useViewNotes();
+  const chrono = useChronology();
+  const reference = notes.find(n => n.id === relativeTo);
+  // fixadas primeiro, depois as demais em ordem cronológica
+  const referenceOptions = [...viewNotes].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || chrono.compare(a, b));
   const [query, setQuery] = useState("");
+  const [importIssues, setImportIssues] = useState<{ file: string, issues: FormatIssue[] }>();
+  const [pendingImport, setPendingImport] = useState<{ file: string, doc: TimelineDocument, images: PendingImages }>();
 
   const pinnedCount = notes.filter(n => n.pinned).length;
 
@@ -296,7 +834,7 @@ function Toolbar() {
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" className="flex items-center gap-2">
-                <Cog size={16}/> Layout: {layout === "ALTERNATE" ? "Alternado" : layout === "LEFT" ? "Esquerda" : layout === "RIGHT" ? "Direita" : "Horizontal"}
+                <Cog size={16}/> Layout: {layout === "ALTERNATE" ? "Alternado" : layout === "LEFT" ? "Esquerda" : layout === "RIGHT" ? "Direita" : layout === "GRAPH" ? "Grafo" : "Horizontal"}
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
@@ -304,61 +842,378 @@ function Toolbar() {
               <DropdownMenuItem onClick={() => setLayout("LEFT")}>Tudo à esquerda</DropdownMenuItem>
               <DropdownMenuItem onClick={() => setLayout("RIGHT")}>Tudo à direita</DropdownMenuItem>
               <DropdownMenuItem onClick={() => setLayout("HORIZONTAL")}>Horizontal</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setLayout("GRAPH")}>Grafo de relações</DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
 
+          {calendars.length > 1 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="flex items-center gap-2">Calendário: {calendar.name}</Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {calendars.map(c => (
+                  <DropdownMenuItem key={c.id} onClick={() => setDisplayCalendar(c.id)}>{c.name}</DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="flex items-center gap-2">
+                Época: {calendar.epochs.find(ep => ep.id === displayEpoch)?.name ?? "a de cada nota"}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => setDisplayEpoch(undefined)}>A de cada nota</DropdownMenuItem>
+              {calendar.epochs.map(ep => (
+                <DropdownMenuItem key={ep.id} onClick={() => setDisplayEpoch(ep.id)}>{ep.name}</DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="flex items-center gap-2 max-w-xs">
+                <span className="truncate">Relativo a: {reference?.title ?? "nenhuma nota"}</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+              <DropdownMenuItem onClick={() => setRelativeTo(undefined)}>Nenhuma nota</DropdownMenuItem>
+              {referenceOptions.map(n => (
+                <DropdownMenuItem key={n.id} onClick={() => setRelativeTo(n.id)}>
+                  {n.pinned && <Pin size={12} className="mr-1"/>}{n.title}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          {!!calendar.cycles?.length && (
+            <Button variant={showCycles ? "default" : "outline"} onClick={() => setShowCycles(!showCycles)} title="Mostrar a fase de cada ciclo nas notas">
+              Ciclos
+            </Button>
+          )}
+
           <SearchBox value={query} onChange={setQuery} onSearch={() => setSearch(query)} />
 
           <FilterBox />
 
+          <TagManagerDialog />
+
           <AddNoteDialog />
 
+          <HistoryControls />
+
           <SettingsDialog />
 
           <Button
             variant="outline"
             onClick={() => {
-              const notes = JSON.parse(localStorage.getItem("atlas_timeline_notes") || "[]");
-              downloadJSON("timeline.json", notes);
+              exportDocument().catch(reportStorageError);
             }}
           >
             Exportar JSON
           </Button>
 
+          <Button
+            variant="outline"
+            title="Notas, calendários, preferências e imagens em arquivos separados"
+            onClick={() => {
+              exportBundle().catch(reportStorageError);
+            }}
+          >
+            Exportar pacote (.zip)
+          </Button>
+
           <Button
             variant="outline"
             onClick={() => {
               const input = document.createElement("input");
               input.type = "file";
-              input.accept = "application/json";
-              input.onchange = (e: any) => importJSON(e);
+              input.accept = "application/json,.json,application/zip,.zip";
+              input.onchange = (e: any) => importJSON(e, (file, issues) => setImportIssues({ file, issues }), (file, doc, images) => setPendingImport({ file, doc, images }));
               input.click();
             }}
           >
-            Importar JSON
+            Importar JSON / ZIP
           </Button>
 
           <Button
             variant="destructive"
             onClick={() => {
-              if (confirm("Tem certeza que deseja apagar toda a timeline? Essa ação não pode ser desfeita.")) {
-                localStorage.removeItem("atlas_timeline_notes");
-                window.location.reload(); // recarrega a página para aplicar
+              if (confirm("Zerar a timeline? Ela fica guardada na lixeira e pode ser restaurada.")) {
+                archiveTimeline();
               }
             }}
           >
             Zerar Timeline
           </Button>
 
+          <TrashDialog />
+          {importIssues && <ImportIssuesDialog {...importIssues} onClose={() => setImportIssues(undefined)} />}
+          {pendingImport && <ImportDialog {...pendingImport} onClose={() => setPendingImport(undefined)} />}
+
           <ExportMenu />
 
           <div className="text-xs text-muted-foreground px-2 ml-auto">Fixadas: {pinnedCount}</div>
         </div>
+
+        <FilterChips />
       </div>
     </div>
   );
 }
 
+// ------------------ Tags ------------------
+const TAG_COLORS = ["#ef4444", "#f97316", "#eab308", "#22c55e", "#14b8a6", "#3b82f6", "#8b5cf6", "#ec4899", "#78716c"];
+
+// Chip de tag com a cor e o ícone escolhidos no gerenciador (ou herdados da tag-mãe)
+function TagChip({ tag, label, className = "", children }:{ tag: string, label?: string, className?: string, children?: React.ReactNode }){
+  const style = styleOf(tag, useTL(s => s.tagStyles));
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${style?.color ? "text-slate-800" : "bg-blue-100 text-blue-700"} ${className}`}
+      style={style?.color ? { background: style.color + "33", border: `1px solid ${style.color}` } : undefined}
+    >
+      {style?.icon && <span>{style.icon}</span>}
+      {label ?? tag}
+      {children}
+    </span>
+  );
+}
+
+// Cor da primeira tag da nota que tenha uma, para a borda do cartão
+function tagAccent(tags: string[] | undefined, styles: TagStyles): React.CSSProperties | undefined {
+  const color = (tags ?? []).map(t => styleOf(t, styles)?.color).find(Boolean);
+  return color ? { borderLeft: `4px solid ${color}` } : undefined;
+}
+
+// Uma tag no gerenciador: aparência, renomear (clicando no nome), variações parecidas e excluir
+function TagRow({ usage, selected, onToggle, onSelectSimilar }:{ usage: TagUsage, selected: boolean, onToggle: () => void, onSelectSimilar: () => void }){
+  const { notes, tagStyles, renameTag, deleteTag, setTagStyle } = useTL();
+  const { tag, count, similar } = usage;
+  const style = tagStyles[tag] ?? {};
+  const inherited = styleOf(tag, tagStyles);
+  const [name, setName] = useState<string>();
+  const [icon, setIcon] = useState(style.icon ?? "");
+  useEffect(()=> setIcon(style.icon ?? ""), [style.icon]);
+
+  function rename(){
+    if(name != null && name.trim() && name.trim() !== tag) renameTag(tag, name);
+    setName(undefined);
+  }
+
+  function remove(){
+    const children = notes.some(n => n.tags?.some(t => t.startsWith(tag + TAG_SEPARATOR)));
+    if(confirm(`Tirar a tag “${tag}”${children ? " e as filhas" : ""} de ${count} nota(s)?`)) deleteTag(tag);
+  }
+
+  return (
+    <div className="flex items-center gap-2 py-1.5 text-sm">
+      <input type="checkbox" checked={selected} onChange={onToggle} title="Selecionar para juntar" />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className="h-6 w-6 rounded-full border"
+            style={{ background: style.color ?? inherited?.color ?? "transparent" }}
+            title={style.color ? "Cor" : inherited?.color ? "Cor herdada da tag-mãe" : "Sem cor"}
+          />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <div className="grid grid-cols-5 gap-1 p-1">
+            {TAG_COLORS.map(c => (
+              <DropdownMenuItem key={c} className="p-0" onClick={()=>setTagStyle(tag, { ...style, color: c })}>
+                <span className={`h-6 w-6 rounded-full ${style.color === c ? "ring-2 ring-offset-1 ring-slate-500" : ""}`} style={{ background: c }} />
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuItem className="p-0" onClick={()=>setTagStyle(tag, { ...style, color: undefined })} title="Sem cor">
+              <span className="h-6 w-6 rounded-full border flex items-center justify-center"><X size={12}/></span>
+            </DropdownMenuItem>
+          </div>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Input
+        value={icon}
+        onChange={e=>setIcon(e.target.value)}
+        onBlur={()=>{ if(icon !== (style.icon ?? "")) setTagStyle(tag, { ...style, icon: icon.trim() || undefined }); }}
+        onKeyDown={e=>{ if(e.key === "Enter") e.currentTarget.blur(); }}
+        placeholder={inherited?.icon ?? "☆"}
+        className="h-7 w-12 text-center px-1"
+        title="Ícone (um emoji)"
+      />
+      <div className="flex-1 min-w-0">
+        {name != null ? (
+          <Input
+            autoFocus
+            value={name}
+            onChange={e=>setName(e.target.value)}
+            onBlur={rename}
+            onKeyDown={e=>{ if(e.key === "Enter") rename(); if(e.key === "Escape") setName(undefined); }}
+            className="h-7"
+          />
+        ) : (
+          <button className="text-left" onClick={()=>setName(tag)} title="Renomear (use / para hierarquia: Reinos/Varn)">
+            <TagChip tag={tag} />
+          </button>
+        )}
+        {!!similar.length && (
+          <button className="ml-2 text-xs text-amber-700 hover:underline" onClick={onSelectSimilar} title="Selecionar as variações para juntar">
+            parecida com {similar.map(t => `“${t}”`).join(", ")}
+          </button>
+        )}
+      </div>
+      <span className="text-xs text-muted-foreground whitespace-nowrap">{count} {count === 1 ? "nota" : "notas"}</span>
+      <Button size="icon" variant="ghost" onClick={remove} title="Excluir tag"><Trash2 size={16}/></Button>
+    </div>
+  );
+}
+
+// Todas as tags usadas, com contagem; juntar variações ("Guerra", "guerra", "Guerras") numa só
+function TagManagerDialog(){
+  const { notes, mergeTags } = useTL();
+  const usage = useMemo(()=> tagUsage(notes), [notes]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [target, setTarget] = useState("");
+  // tags que sumiram (renomeadas, excluídas) saem da seleção
+  useEffect(()=> setSelected(sel => sel.filter(t => usage.some(u => u.tag === t))), [usage]);
+
+  const toggle = (tag: string) => setSelected(sel => sel.includes(tag) ? sel.filter(t => t !== tag) : [...sel, tag]);
+  function merge(){
+    mergeTags(selected, target.trim() || selected[0]);
+    setSelected([]);
+    setTarget("");
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2"><Tags size={16}/>Tags</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Tags</DialogTitle>
+        </DialogHeader>
+        {selected.length > 1 && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md border p-2 text-sm">
+            <span>Juntar {selected.length} tags em</span>
+            <Input className="h-8 w-48" list="tag-merge-target" value={target} placeholder={selected[0]} onChange={e=>setTarget(e.target.value)} />
+            <datalist id="tag-merge-target">{selected.map(t => <option key={t} value={t} />)}</datalist>
+            <Button size="sm" onClick={merge}>Juntar</Button>
+            <Button size="sm" variant="ghost" onClick={()=>setSelected([])}>Cancelar</Button>
+          </div>
+        )}
+        <div className="divide-y">
+          {!usage.length && <div className="text-sm text-muted-foreground py-2">Nenhuma nota tem tags ainda.</div>}
+          {usage.map(u => (
+            <TagRow
+              key={u.tag}
+              usage={u}
+              selected={selected.includes(u.tag)}
+              onToggle={()=>toggle(u.tag)}
+              onSelectSimilar={()=>setSelected(sel => Array.from(new Set([...sel, u.tag, ...u.similar])))}
+            />
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Notas excluídas e timelines zeradas, para restaurar ou apagar de vez
+function TrashDialog(){
+  const { trash, calendars, restoreNote, purgeNote, emptyTrash, restoreSnapshot, deleteSnapshot } = useTL();
+  const count = trash.notes.length + trash.snapshots.length;
+  const when = (at: number) => new Date(at).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" });
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2"><Trash2 size={16}/>Lixeira{count ? ` (${count})` : ""}</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Lixeira</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <div className="text-sm font-semibold">Notas excluídas</div>
+              {!!trash.notes.length && (
+                <Button size="sm" variant="ghost" onClick={() => { if(confirm("Apagar de vez todas as notas da lixeira?")) emptyTrash(); }}>Esvaziar</Button>
+              )}
+            </div>
+            {!trash.notes.length && <div className="text-xs text-muted-foreground">Nenhuma nota na lixeira.</div>}
+            <div className="grid gap-1">
+              {trash.notes.map(({ note, deletedAt }) => {
+                const cal = calendarOf(note.date, calendars);
+                return (
+                  <div key={note.id} className="flex items-center gap-2 border rounded p-2 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{note.title}</div>
+                      <div className="text-xs text-muted-foreground">{formatNoteDate(note, cal, note.level)} • excluída em {when(deletedAt)}</div>
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => restoreNote(note.id)}>Restaurar</Button>
+                    <Button size="icon" variant="ghost" onClick={() => purgeNote(note.id)} title="Apagar de vez"><X size={16}/></Button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+          <div>
+            <div className="text-sm font-semibold mb-1">Timelines guardadas</div>
+            {!trash.snapshots.length && <div className="text-xs text-muted-foreground">Nenhuma. "Zerar Timeline" guarda a timeline aqui.</div>}
+            <div className="grid gap-1">
+              {trash.snapshots.map(snap => (
+                <div key={snap.id} className="flex items-center gap-2 border rounded p-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{snap.label}</div>
+                    <div className="text-xs text-muted-foreground">{when(snap.createdAt)} • {snap.notes.length} nota(s), {snap.calendars.length} calendário(s)</div>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => restoreSnapshot(snap.id)} title="A timeline atual também fica guardada aqui">Restaurar</Button>
+                  <Button size="icon" variant="ghost" onClick={() => deleteSnapshot(snap.id)} title="Apagar de vez"><X size={16}/></Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Desfazer/refazer e a lista dos últimos passos (clicar em um passo desfaz ou refaz até ele, inclusive)
+function HistoryControls(){
+  const { history, undo, redo } = useTL();
+  const last = history.past[history.past.length - 1];
+  const next = history.future[history.future.length - 1];
+  const time = (at: number) => new Date(at).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" });
+  return (
+    <div className="flex items-center gap-1">
+      <Button size="icon" variant="outline" disabled={!last} onClick={() => undo()} title={last ? `Desfazer: ${last.label} (Ctrl+Z)` : "Nada para desfazer"}><Undo2 size={16}/></Button>
+      <Button size="icon" variant="outline" disabled={!next} onClick={() => redo()} title={next ? `Refazer: ${next.label} (Ctrl+Shift+Z)` : "Nada para refazer"}><Redo2 size={16}/></Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="icon" variant="outline" title="Histórico"><HistoryIcon size={16}/></Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto w-72">
+          {!history.past.length && !history.future.length && <div className="px-2 py-1 text-xs text-muted-foreground">(nenhuma alteração nesta sessão)</div>}
+          {/* refazíveis acima (apagados), o passo mais recente no meio, os mais antigos abaixo */}
+          {history.future.map((e, i) => (
+            <DropdownMenuItem key={`f${i}`} onClick={() => redo(history.future.length - i)} className="text-muted-foreground italic">
+              <span className="flex-1 truncate">{e.label}</span><span className="text-xs">{time(e.at)}</span>
+            </DropdownMenuItem>
+          ))}
+          {[...history.past].reverse().map((e, i) => (
+            <DropdownMenuItem key={`p${i}`} onClick={() => undo(i + 1)} className={i === 0 ? "font-semibold" : ""}>
+              <span className="flex-1 truncate">{e.label}</span><span className="text-xs text-muted-foreground">{time(e.at)}</span>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
+
 function SearchBox({ value, onChange, onSearch }:{ value:string, onChange:(v:string)=>void, onSearch:()=>void }){
   return (
     <div className="flex items-center gap-1">
@@ -376,14 +1231,15 @@ type ExportOptions = {
   includeTags?: boolean;        // padrão: false
   includeImages?: boolean;      // (não usado em TXT/DOCX — mantido p/ futuro)
   groupBy: GroupLevel;          // padrão: "NONE"
+  epoch?: string;               // época em que os anos são escritos (padrão: a de cada nota)
 };
 
 function buildExportText(notes: Note[], calendar: AtlasCalendar, opts: ExportOptions): string {
-  const order = [...notes].sort(compareDates);
+  const order = [...notes].sort(createChronology(notes, calendar).compare);
 
   const formatNote = (n: Note) => {
-    // 1) Data (sem "Ano"), com "a.U." somente quando AU
-    const lines: string[] = [formatAtlasDate(n.date, calendar, "YEAR")];
+    // 1) Data (sem "Ano"), com "a.U." somente quando AU; períodos como "início – fim (duração)"
+    const lines: string[] = [formatNoteDate(n, calendar, "YEAR", opts.epoch)];
 
     // 2) Título
     if (n.title) lines.push(n.title);
@@ -405,9 +1261,9 @@ function buildExportText(notes: Note[], calendar: AtlasCalendar, opts: ExportOpt
   const keyOf = (n: Note): string => {
     switch (opts.groupBy) {
       case "ERA":        return n.date.era || "Sem Era";
-      case "MILLENNIUM": return formatAtlasDate(n.date, calendar, "MILLENNIUM") || "Milênio ?";
-      case "CENTURY":    return formatAtlasDate(n.date, calendar, "CENTURY") || "Século ?";
-      case "DECADE":     return formatAtlasDate(n.date, calendar, "DECADE") || "Década ?";
+      case "MILLENNIUM": return formatAtlasDate(n.date, calendar, "MILLENNIUM", opts.epoch) || "Milênio ?";
+      case "CENTURY":    return formatAtlasDate(n.date, calendar, "CENTURY", opts.epoch) || "Século ?";
+      case "DECADE":     return formatAtlasDate(n.date, calendar, "DECADE", opts.epoch) || "Década ?";
     }
   };
 
@@ -467,7 +1323,10 @@ async function saveDOCX(
 }
 
 function downloadJSON(filename: string, data: any) {
-  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  downloadBlob(filename, new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }));
+}
+
+function downloadBlob(filename: string, blob: Blob) {
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
@@ -478,24 +1337,316 @@ function downloadJSON(filename: string, data: any) {
   URL.revokeObjectURL(url);
 }
 
-function importJSON(e: React.ChangeEvent<HTMLInputElement>) {
+// O arquivo exportado leva as imagens em base64, para não depender do banco deste navegador
+async function notesWithInlineImages(notes: Note[]): Promise<Note[]> {
+  const storage = await getStorage();
+  const inline = async (src: string) => {
+    const asset = isImageRef(src) ? await storage.getImage(src) : undefined;
+    return asset ? blobToDataURL(asset.blob) : src;
+  };
+  return Promise.all(notes.map(async n => n.images?.length ? { ...n, images: await Promise.all(n.images.map(inline)) } : n));
+}
+
+// Imagens de um arquivo importado, por referência; só vão para a biblioteca quando a importação é confirmada
+type PendingImages = Map<string, ImageAsset>;
+
+// Caminho inverso: as notas passam a apontar para as referências que as imagens em base64 terão (sem passar de novo por prepareImage)
+async function inlineImageRefs(notes: Note[], pending: PendingImages): Promise<Note[]> {
+  const storage = await getStorage();
+  const refOf = async (src: string) => {
+    if(!src.startsWith("data:")) return src;
+    const asset = await restoreImage(await dataURLToBlob(src));
+    const ref = await storage.imageRef(asset);
+    pending.set(ref, asset);
+    return ref;
+  };
+  return Promise.all(notes.map(async n => n.images?.length ? { ...n, images: await Promise.all(n.images.map(refOf)) } : n));
+}
+
+// Grava as imagens pendentes que as notas importadas de fato usam
+async function storeImportedImages(notes: Note[], pending: PendingImages){
+  const storage = await getStorage();
+  const used = new Set(notes.flatMap(n => n.images ?? []));
+  for(const [ref, asset] of pending) if(used.has(ref)) await storage.putImage(asset);
+}
+
+// Exporta notas, calendários e preferências de exibição no formato versionado
+async function exportDocument(){
+  const { notes, calendars, calendar, layout, displayEpoch, showCycles, tagStyles } = useTL.getState();
+  const doc = createDocument(await notesWithInlineImages(notes), calendars, { layout, displayCalendar: calendar.id, displayEpoch, showCycles, tagStyles });
+  downloadJSON("timeline.json", doc);
+}
+
+// Pacote .zip: as imagens vão como arquivos, sem base64
+async function exportBundle(){
+  const { notes, calendars, calendar, layout, displayEpoch, showCycles, tagStyles } = useTL.getState();
+  const storage = await getStorage();
+  const blob = await createBundle(notes, calendars, { layout, displayCalendar: calendar.id, displayEpoch, showCycles, tagStyles }, ref => storage.getImage(ref));
+  downloadBlob("timeline.zip", blob);
+}
+
+// As notas do pacote passam a apontar para as referências das imagens, que ficam pendentes até a confirmação
+async function importBundle(file: File): Promise<{ document?: TimelineDocument; images: PendingImages; issues: FormatIssue[] }> {
+  const pending: PendingImages = new Map();
+  const { document: doc, images, issues } = await readBundle(file);
+  if (!doc) return { images: pending, issues };
+  const storage = await getStorage();
+  const refs = new Map<string, string>();
+  for (const [path, asset] of images) {
+    const ref = await storage.imageRef(asset);
+    refs.set(path, ref);
+    pending.set(ref, asset);
+  }
+  const notes = doc.notes.map(n => n.images?.length ? { ...n, images: n.images.map(src => refs.get(src) ?? src) } : n);
+  return { document: { ...doc, notes: await inlineImageRefs(notes, pending) }, images: pending, issues };
+}
+
+// Arquivos com problemas não são gravados (`onIssues` recebe a lista); os válidos vão para o diálogo de importação
+function importJSON(
+  e: React.ChangeEvent<HTMLInputElement>,
+  onIssues: (file: string, issues: FormatIssue[]) => void,
+  onDocument: (file: string, doc: TimelineDocument, images: PendingImages) => void,
+) {
   const file = e.target.files?.[0];
   if (!file) return;
+  if (/\.zip$/i.test(file.name)) {
+    importBundle(file)
+      .then(({ document: doc, images, issues }) => doc ? onDocument(file.name, doc, images) : onIssues(file.name, issues))
+      .catch(reportStorageError);
+    return;
+  }
   const reader = new FileReader();
   reader.onload = () => {
-    try {
-      const data = JSON.parse(reader.result as string);
-      localStorage.setItem("atlas_timeline_notes", JSON.stringify(data));
-      window.location.reload(); // recarrega o app para aplicar
-    } catch (err) {
-      alert("Arquivo inválido");
+    const { document: doc, issues } = parseDocument(reader.result as string);
+    if (!doc) {
+      onIssues(file.name, issues);
+      return;
     }
+    // as referências já saem certas (o id é o hash do blob exportado, o mesmo da imagem de origem) para a prévia comparar
+    const images: PendingImages = new Map();
+    inlineImageRefs(doc.notes, images)
+      .then(notes => onDocument(file.name, { ...doc, notes }, images))
+      .catch(reportStorageError);
   };
   reader.readAsText(file);
 }
 
+type ImportMode = "replace" | "append" | "merge";
+
+const FIELD_LABELS: Record<NoteField, string> = {
+  title: "Título", description: "Descrição", date: "Data", endDate: "Data final", level: "Granularidade",
+  weight: "Peso", pinned: "Fixada", tags: "Tags", images: "Imagens", relations: "Relações",
+};
+
+function describeField(field: NoteField, value: unknown, calendars: AtlasCalendar[]){
+  if(value == null || value === "" || (Array.isArray(value) && !value.length)) return "—";
+  if(field === "date" || field === "endDate") return formatFullDate(value as AtlasDate, calendarOf(value as AtlasDate, calendars)) || "—";
+  if(field === "pinned") return value ? "Sim" : "Não";
+  if(field === "tags") return (value as string[]).join(", ");
+  if(field === "images") return `${(value as string[]).length} imagem(ns)`;
+  if(field === "relations") return (value as Relation[]).map(r => RELATION_INFO[r.type].label).join(", ");
+  return String(value);
+}
+
+// Substituir, acrescentar ou mesclar por id, com a prévia do que muda e a escolha de cada conflito
+function ImportDialog({ file, doc, images, onClose }:{ file: string, doc: TimelineDocument, images: PendingImages, onClose: () => void }){
+  const { notes, calendars, tagStyles, importDocument } = useTL();
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [choices, setChoices] = useState<MergeChoices>({ fields: {}, duplicates: {} });
+  // arquivos da versão 1 não trazem calendário: as notas entram nos calendários atuais
+  const calendarMerge = useMemo(() => doc.calendars.length
+    ? mergeCalendars(calendars, doc.calendars.map(c => ({ ...defaultCalendar, ...c })), uuid)
+    : { calendars, renamed: new Map<string, string>() }, [doc, calendars]);
+  const incomingCalendars = calendarMerge.calendars;
+  const incoming = useMemo(() => prepareNotes(
+    retargetCalendars(doc.notes, doc.calendars[0]?.id, calendarMerge.renamed, incomingCalendars[0].id),
+    incomingCalendars,
+  ), [doc, calendarMerge, incomingCalendars]);
+  const items = useMemo(() => planMerge(notes, incoming, incomingCalendars), [notes, incoming, incomingCalendars]);
+  const renamedCalendars = incomingCalendars.filter(c => Array.from(calendarMerge.renamed.values()).includes(c.id));
+  const of = (kind: ImportItem["kind"]) => items.filter(x => x.kind === kind);
+
+  function pickField(id: string, field: NoteField, choice: FieldChoice){
+    setChoices(c => ({ ...c, fields: { ...c.fields, [id]: { ...c.fields[id], [field]: choice } } }));
+  }
+  function pickAll(choice: FieldChoice){
+    const fields: MergeChoices["fields"] = {};
+    items.forEach(x => { if(x.kind === "conflict") fields[x.incoming.id] = Object.fromEntries(x.diffs.map(d => [d.field, choice])); });
+    setChoices(c => ({ ...c, fields }));
+  }
+
+  function confirm(){
+    const label = `Importou ${file} (${mode === "replace" ? "substituindo" : mode === "append" ? "acrescentando" : "mesclando"})`;
+    const result: TimelineDocument = mode === "replace" ? doc : {
+      ...doc,
+      calendars: incomingCalendars,
+      notes: mode === "append" ? appendNotes(notes, incoming, uuid) : applyMerge(notes, items, choices, uuid),
+      // só a substituição traz as preferências de exibição do arquivo; das cores das tags, entram as que faltam aqui
+      settings: doc.settings.tagStyles ? { tagStyles: { ...doc.settings.tagStyles, ...tagStyles } } : {},
+    };
+    storeImportedImages(result.notes, images)
+      .then(() => { importDocument(result, label); onClose(); })
+      .catch(reportStorageError);
+  }
+
+  const counts: [ImportItem["kind"], string][] = [["new", "novas"], ["changed", "completadas"], ["conflict", "em conflito"], ["duplicate", "prováveis duplicatas"], ["unchanged", "iguais"]];
+  return (
+    <Dialog open onOpenChange={(o)=>{ if(!o) onClose(); }}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar {file}</DialogTitle>
+        </DialogHeader>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {([["replace", "Substituir a timeline"], ["append", "Acrescentar todas"], ["merge", "Mesclar por id"]] as [ImportMode, string][]).map(([m, label]) => (
+            <label key={m} className="flex items-center gap-1">
+              <input type="radio" checked={mode === m} onChange={() => setMode(m)} />{label}
+            </label>
+          ))}
+        </div>
+        <div className="text-sm text-muted-foreground">
+          {mode === "replace" && `As ${notes.length} notas atuais dão lugar às ${incoming.length} do arquivo (dá para desfazer).`}
+          {mode === "append" && `As ${incoming.length} notas do arquivo entram ao lado das atuais; ids repetidos ganham um novo id.`}
+          {mode === "merge" && counts.filter(([k]) => of(k).length).map(([k, label]) => `${of(k).length} ${label}`).join(" • ")}
+        </div>
+        {mode !== "replace" && !!renamedCalendars.length && (
+          <div className="text-sm text-amber-700">
+            O arquivo traz calendários com o mesmo id dos daqui, mas com outros meses ou regras. Eles entram como novos calendários
+            ({renamedCalendars.map(c => c.name).join(", ")}) e as datas do arquivo continuam lidas neles.
+          </div>
+        )}
+
+        {mode === "merge" && (
+          <div className="space-y-4">
+            {!!of("new").length && (
+              <div>
+                <div className="text-sm font-semibold mb-1">Novas</div>
+                <div className="text-sm text-muted-foreground">{of("new").map(x => x.incoming.title).join(", ")}</div>
+              </div>
+            )}
+            {!!of("changed").length && (
+              <div>
+                <div className="text-sm font-semibold mb-1">Completadas (só um dos lados preencheu)</div>
+                {of("changed").map(x => x.kind === "changed" && (
+                  <div key={x.incoming.id} className="text-sm">
+                    <span className="font-medium">{x.local.title}</span>
+                    <span className="text-muted-foreground"> — {x.diffs.map(d => FIELD_LABELS[d.field]).join(", ")}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {!!of("conflict").length && (
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <div className="text-sm font-semibold">Conflitos</div>
+                  <div className="flex gap-1">
+                    <Button size="sm" variant="ghost" onClick={() => pickAll("local")}>Manter todas as minhas</Button>
+                    <Button size="sm" variant="ghost" onClick={() => pickAll("incoming")}>Usar todas do arquivo</Button>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  {of("conflict").map(x => x.kind === "conflict" && (
+                    <div key={x.incoming.id} className="border rounded p-2">
+                      <div className="font-medium text-sm mb-1">{x.local.title}</div>
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-xs text-muted-foreground text-left"><th>Campo</th><th>Minha</th><th>Do arquivo</th></tr>
+                        </thead>
+                        <tbody>
+                          {x.diffs.map(d => {
+                            const pick = choices.fields[x.incoming.id]?.[d.field] ?? defaultChoice(d);
+                            return (
+                              <tr key={d.field} className="align-top">
+                                <td className="pr-2 text-muted-foreground">{FIELD_LABELS[d.field]}</td>
+                                {(["local", "incoming"] as FieldChoice[]).map(side => (
+                                  <td key={side} className="pr-2">
+                                    <label className="flex items-start gap-1">
+                                      <input type="radio" className="mt-1" checked={pick === side} onChange={() => pickField(x.incoming.id, d.field, side)} />
+                                      <span className="whitespace-pre-wrap">{describeField(d.field, side === "local" ? d.local : d.incoming, incomingCalendars)}</span>
+                                    </label>
+                                  </td>
+                                ))}
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {!!of("duplicate").length && (
+              <div>
+                <div className="text-sm font-semibold mb-1">Prováveis duplicatas (mesmo título e data, ids diferentes)</div>
+                <div className="space-y-1">
+                  {of("duplicate").map(x => (
+                    <div key={x.incoming.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span><span className="font-medium">{x.incoming.title}</span> <span className="text-muted-foreground">— {formatFullDate(x.incoming.date, calendarOf(x.incoming.date, incomingCalendars))}</span></span>
+                      <select
+                        value={choices.duplicates[x.incoming.id] ?? "skip"}
+                        onChange={e => setChoices(c => ({ ...c, duplicates: { ...c.duplicates, [x.incoming.id]: e.target.value as DuplicateChoice } }))}
+                        className="border rounded p-1"
+                      >
+                        <option value="skip">Ignorar a do arquivo</option>
+                        <option value="both">Manter as duas</option>
+                        <option value="replace">Trocar a minha pela do arquivo</option>
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>Cancelar</Button>
+          <Button onClick={confirm}>Importar</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Lista, nota por nota, o que impediu a importação
+function ImportIssuesDialog({ file, issues, onClose }:{ file: string, issues: FormatIssue[], onClose: () => void }){
+  const general = issues.filter(x => x.note == null);
+  const byNote = new Map<number, FormatIssue[]>();
+  issues.forEach(x => { if(x.note != null) byNote.set(x.note, [...(byNote.get(x.note) ?? []), x]); });
+  return (
+    <Dialog open onOpenChange={(o)=>{ if(!o) onClose(); }}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Não foi possível importar {file}</DialogTitle>
+        </DialogHeader>
+        <div className="text-sm text-muted-foreground">Nada foi alterado. Corrija o arquivo e tente de novo.</div>
+        {!!general.length && (
+          <ul className="text-sm list-disc pl-5">
+            {general.map((x, i) => <li key={i}>{x.path && <code className="text-xs">{x.path}</code>} {x.message}</li>)}
+          </ul>
+        )}
+        {byNote.size > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-semibold">{byNote.size} nota(s) com problemas</div>
+            {Array.from(byNote.entries()).map(([index, list]) => (
+              <div key={index} className="border rounded p-2 text-sm">
+                <div className="font-medium">Nota {index + 1}{list[0].title ? ` — ${list[0].title}` : ""}</div>
+                <ul className="list-disc pl-5">
+                  {list.map((x, i) => <li key={i}><code className="text-xs">{x.path.replace(/^notes\[\d+\]\.?/, "")}</code> {x.message}</li>)}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-end"><Button onClick={onClose}>Fechar</Button></div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function ExportMenu(){
-  const { notes, calendar } = useTL();
+  const { calendar, displayEpoch } = useTL();
+  const notes = useViewNotes();
   const [open, setOpen] = useState(false);
 
   // Opções com os padrões que você pediu
@@ -508,6 +1659,7 @@ function ExportMenu(){
     includeTags,
     includeImages: false,
     groupBy,
+    epoch: displayEpoch,
   };
 
   return (
@@ -599,25 +1751,24 @@ function AddNoteDialog(){
   const [description, setDescription] = useState("");
   const [level, setLevel] = useState<Level>("YEAR");
   const [date, setDate] = useState<AtlasDate>({});
+  const [endDate, setEndDate] = useState<AtlasDate|undefined>(undefined);
   const [images, setImages] = useState<string[]>([]);
   const [weight, setWeight] = useState<number>(1);
   const [tags, setTags] = useState<string>(""); // NOVO
-  const { addNote } = useTL();
+  const { addNote, calendars } = useTL();
 
   function handleFile(e: React.ChangeEvent<HTMLInputElement>){
     const files = e.target.files; if(!files) return;
     Array.from(files).forEach(file=>{
-      const reader = new FileReader();
-      reader.onload = () => setImages(prev => [...prev, reader.result as string]);
-      reader.readAsDataURL(file);
+      storeImage(file).then(ref => setImages(prev => prev.includes(ref) ? prev : [...prev, ref]), () => {});
     })
   }
 
   function save(){
     const tagsArr = tags.split(",").map(t=>t.trim()).filter(Boolean);
-    addNote({ title, description, level, date, images, weight, pinned: false, tags: tagsArr });
+    addNote({ title, description, level, date, endDate, images, weight, pinned: false, tags: tagsArr });
     setOpen(false);
-    setTitle(""); setDescription(""); setDate({}); setImages([]); setWeight(1); setLevel("YEAR"); setTags("");
+    setTitle(""); setDescription(""); setDate({}); setEndDate(undefined); setImages([]); setWeight(1); setLevel("YEAR"); setTags("");
   }
 
   return (
@@ -656,17 +1807,20 @@ function AddNoteDialog(){
           </div>
 
           <DateEditor date={date} onChange={setDate} />
+          <EndDateEditor start={date} end={endDate} onChange={setEndDate} />
 
           <div className="col-span-2">
             <label className="text-xs text-muted-foreground">Imagens (opcional)</label>
             <div className="flex items-center gap-2">
               <Input type="file" accept="image/*" multiple onChange={handleFile} />
+              <GalleryDialog onPick={src => setImages(prev => prev.includes(src) ? prev : [...prev, src])} />
             </div>
             {!!images.length && (
               <div className="mt-2 grid grid-cols-6 gap-2">
                 {images.map((src,i)=> (
                   <div key={i} className="relative">
-                    <img src={src} className="w-full h-16 object-cover rounded"/>
+                    <StoredImage src={src} variant="thumb" className="w-full h-16 object-cover rounded"/>
+                    <button type="button" onClick={()=>setImages(prev => prev.filter(x => x !== src))} className="absolute top-0 right-0 bg-black/60 text-white rounded-bl p-0.5" title="Remover"><X size={12}/></button>
                   </div>
                 ))}
               </div>
@@ -674,7 +1828,7 @@ function AddNoteDialog(){
           </div>
           <div className="col-span-2 flex justify-end gap-2">
             <Button variant="outline" onClick={()=>setOpen(false)}>Cancelar</Button>
-            <Button onClick={save} disabled={!title.trim()}>Salvar</Button>
+            <Button onClick={save} disabled={!title.trim() || hasDateErrors(calendars, date, endDate)}>Salvar</Button>
           </div>
         </div>
       </DialogContent>
@@ -682,9 +1836,217 @@ function AddNoteDialog(){
   );
 }
 
+// Edição de uma nota, aberta de qualquer lugar pela store (`setEditingId`)
+function EditNoteDialog(){
+  const { notes, calendars, editingId, setEditingId, updateNote } = useTL();
+  const [draft, setDraft] = useState<Note|null>(null);
+  const [tags, setTags] = useState("");
+
+  const current = notes.find(n => n.id === editingId);
+
+  // cada abertura parte da nota salva (no calendário em que ela foi registrada);
+  // se ela mudar por fora com o diálogo aberto (desfazer, importação), o formulário recarrega
+  useEffect(() => {
+    setDraft(current ?? null);
+    setTags((current?.tags || []).join(", "));
+  }, [editingId, current]);
+
+  function addImage(ref: string){
+    setDraft(prev => prev && !prev.images?.includes(ref) ? {...prev, images:[...(prev.images||[]), ref]} : prev);
+  }
+
+  function save(){
+    if(!draft) return;
+    const normalizedDate: AtlasDate = {
+      era: draft.date.era ?? "",
+      millennium: draft.date.millennium ?? undefined,
+      century: draft.date.century ?? undefined,
+      decade: draft.date.decade ?? undefined,
+      year: draft.date.year ?? undefined,
+      month: draft.date.month ?? undefined,
+      day: draft.date.day ?? undefined,
+      intercalary: draft.date.intercalary,
+      approximate: draft.date.approximate,
+      latestYear: draft.date.latestYear,
+      relativeEra: draft.date.relativeEra ?? "DU",
+      epoch: draft.date.epoch,
+      calendar: draft.date.calendar,
+      overrides: draft.date.overrides
+    };
+    const { id, createdAt, ...fields } = draft;
+    updateNote(id, { ...fields, date: normalizedDate, tags: tags.split(",").map(t=>t.trim()).filter(Boolean) });
+    setEditingId(undefined);
+  }
+
+  if(!draft) return null;
+  return (
+    <Dialog open={!!editingId} onOpenChange={(o)=>{ if(!o) setEditingId(undefined); }}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Editar nota</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Input value={draft.title} onChange={e=>setDraft({...draft, title:e.target.value})} />
+          <Textarea value={draft.description} onChange={e=>setDraft({...draft, description:e.target.value})} />
+
+          {/* Granularidade */}
+          <div>
+            <label className="text-xs text-muted-foreground">Granularidade</label>
+            <select value={draft.level} onChange={e=>setDraft({...draft, level:e.target.value as Level})} className="w-full border rounded p-2">
+              {LEVELS.map(l=> <option key={l} value={l}>{l}</option>)}
+            </select>
+          </div>
+
+          {/* Peso */}
+          <div>
+            <label className="text-xs text-muted-foreground">Peso</label>
+            <Input type="number" value={draft.weight||1} onChange={e=>setDraft({...draft, weight:Number(e.target.value)||1})} />
+          </div>
+
+          {/* Datas */}
+          <div className="grid grid-cols-2 gap-3">
+            <DateEditor date={draft.date} onChange={(d)=>setDraft({...draft, date:d})} />
+            <EndDateEditor start={draft.date} end={draft.endDate} onChange={(d)=>setDraft({...draft, endDate:d})} />
+          </div>
+
+          {/* Tags */}
+          <div>
+            <label className="text-xs text-muted-foreground">Tags (separadas por vírgula)</label>
+            <Input value={tags} onChange={e => setTags(e.target.value)} placeholder="Ex: Humanos, Guerra, Religião" />
+          </div>
+
+          <RelationsEditor noteId={draft.id} relations={draft.relations ?? []} onChange={relations=>setDraft({...draft, relations})} />
+
+          {/* Imagens */}
+          <div>
+            <label className="text-xs text-muted-foreground">Imagens</label>
+            <div className="flex items-center gap-2">
+              <Input type="file" accept="image/*" multiple onChange={(e)=>{
+                const files = e.target.files; if(!files) return;
+                Array.from(files).forEach(file=>{
+                  storeImage(file).then(addImage, () => {});
+                });
+              }} />
+              <GalleryDialog onPick={addImage} />
+            </div>
+            {!!(draft.images && draft.images.length) && (
+              <div className="mt-2 grid grid-cols-4 gap-2">
+                {draft.images.map((src,i)=> (
+                  <div key={i} className="relative">
+                    <ImagePreview src={src} />
+                    <button type="button" onClick={()=>setDraft({...draft, images: draft.images!.filter(x => x !== src)})} className="absolute top-0 right-0 bg-black/60 text-white rounded-bl p-0.5" title="Remover"><X size={12}/></button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={()=>setEditingId(undefined)}>Cancelar</Button>
+            <Button onClick={save} disabled={!draft.title.trim() || hasDateErrors(calendars, draft.date, draft.endDate)}>Salvar</Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Fases dos ciclos do calendário no dia da data (vazio quando a data não é de um dia só)
+function CycleLine({ date, calendar, className = "" }:{ date: AtlasDate, calendar: AtlasCalendar, className?: string }){
+  const phases = cyclePhases(date, calendar);
+  if(!phases.length) return null;
+  return (
+    <div className={`text-xs text-muted-foreground flex flex-wrap gap-x-3 ${className}`}>
+      {phases.map(p => <span key={p.cycle.id}>{formatCyclePhase(p)}</span>)}
+    </div>
+  );
+}
+
+// Distância até a nota de referência escolhida na barra ("Relativo a")
+function RelativeLine({ date, noteId, className = "" }:{ date: AtlasDate, noteId?: string, className?: string }){
+  const { relativeTo, notes, calendars, calendar } = useTL();
+  const original = notes.find(n => n.id === relativeTo);
+  if(!original) return null;
+  const ref = noteInCalendar(original, calendars, calendar);
+  const text = noteId === ref.id ? "nota de referência" : formatRelative(date, ref, calendar);
+  if(!text) return null;
+  return <div className={`text-xs text-blue-600 ${className}`}>{text}</div>;
+}
+
+// Problemas que impedem salvar a data (o DateEditor mostra; os diálogos bloqueiam o Salvar)
+type DateErrors = { day?: string, window?: string };
+
+function dateErrors(date: AtlasDate, calendars: AtlasCalendar[]): DateErrors {
+  const calendar = calendarOf(date, calendars);
+  // Com o ano conhecido, valida o dia contra o tamanho do mês (bissextos incluídos)
+  const exactYear = date.year != null || date.relativeEra === "ZERO" ? yearRange(date, calendar)?.first : undefined;
+  const festival = date.intercalary != null ? calendar.intercalaryDays?.[date.intercalary] : undefined;
+  const errors: DateErrors = {};
+  if (date.month != null && date.day != null) {
+    const max = exactYear != null ? monthLength(exactYear, date.month, calendar) : (calendar.months[date.month - 1]?.days ?? 0) + (calendar.leap?.month === date.month ? 1 : 0);
+    if (date.day < 1 || date.day > max) errors.day = `${calendar.months[date.month - 1]?.name ?? "Este mês"} tem ${max} dias${exactYear != null ? " neste ano" : ""}.`;
+  } else if (festival?.leapOnly && exactYear != null && !isLeapYear(exactYear, calendar)) {
+    errors.day = `${festival.name} só acontece em anos bissextos.`;
+  }
+  // janela invertida ordenaria e agruparia a nota no lugar errado
+  const startYear = date.year != null || date.relativeEra === "ZERO" ? absoluteYear(date.year ?? 0, date.relativeEra) : undefined;
+  if (date.latestYear != null && startYear != null && date.latestYear <= startYear) errors.window = "O fim da janela deve ser depois do ano inicial.";
+  return errors;
+}
+
+// Alguma das datas da nota (início ou fim) com problema
+const hasDateErrors = (calendars: AtlasCalendar[], ...dates: (AtlasDate | undefined)[]) =>
+  dates.some(d => d && Object.values(dateErrors(d, calendars)).some(Boolean));
+
 function DateEditor({ date, onChange }:{ date: AtlasDate, onChange:(d:AtlasDate)=>void }){
-  const { calendar, notes } = useTL();
-  const update = (k:keyof AtlasDate, v:any) => onChange({ ...date, [k]: v });
+  const { calendars, notes } = useTL();
+  const calendar = calendarOf(date, calendars); // campos interpretados no calendário da própria data
+  const update = (k:keyof AtlasDate, v:any) => onChange(deriveDate({ ...date, [k]: v }, calendar));
+
+  // Campo calculado automaticamente a partir de um campo mais específico (e não fixado)
+  const isDerived = (k: DerivedField) =>
+    !date.overrides?.includes(k) &&
+    deriveDate({ ...date, [k]: undefined, overrides: [] }, calendar)[k] != null;
+  const canOverride = (k: DerivedField) =>
+    date.overrides?.includes(k) || deriveDate({ ...date, [k]: undefined, overrides: [] }, calendar)[k] != null;
+  const toggleOverride = (k: DerivedField) => {
+    const current = date.overrides || [];
+    const overrides = current.includes(k) ? current.filter(f=>f!==k) : [...current, k];
+    onChange(deriveDate({ ...date, overrides: overrides.length ? overrides : undefined }, calendar));
+  };
+  const overrideToggle = (k: DerivedField) => canOverride(k) && (
+    <label className="ml-2 text-[10px] font-normal text-muted-foreground inline-flex items-center gap-1" title="Fixar um valor diferente do calculado pelo ano">
+      <input type="checkbox" checked={!!date.overrides?.includes(k)} onChange={()=>toggleOverride(k)} />
+      manual
+    </label>
+  );
+  const range = date.year == null ? yearRange(date, calendar) : undefined;
+  const epoch = epochOf(date, calendar);
+  const weekday = weekdayOf(date, calendar);
+  const yearLabel = (y: number) => {
+    const local = y - epoch.offset;
+    return formatAtlasDate({ year: Math.abs(local), relativeEra: local < 0 ? "AU" : local === 0 ? "ZERO" : "DU", epoch: epoch.id }, calendar, "YEAR");
+  };
+
+  // Mês e dia intercalar dividem o mesmo seletor: "m3" = mês 3, "f0" = primeiro dia intercalar
+  const monthValue = date.intercalary != null ? `f${date.intercalary}` : date.month != null ? `m${date.month}` : "";
+  const selectMonth = (v: string) => {
+    const n = Number(v.slice(1));
+    if (v.startsWith("f")) onChange(deriveDate({ ...date, month: undefined, day: undefined, intercalary: n }, calendar));
+    else onChange(deriveDate({ ...date, month: v ? n : undefined, intercalary: undefined }, calendar));
+  };
+  const { day: dayError, window: windowError } = dateErrors(date, calendars);
+  const hasYear = date.year != null || date.relativeEra === "ZERO";
+  const startYear = hasYear ? absoluteYear(date.year ?? 0, date.relativeEra) : undefined;
+
+  // Data por extenso: interpretada ao digitar, aplicada com Enter ou "Usar"
+  const [text, setText] = useState("");
+  const parsed = useMemo(() => parseAtlasDate(text, calendar), [text, calendar]);
+  const applyText = () => {
+    if(!parsed.date || parsed.errors.length) return;
+    onChange({ ...parsed.date, era: parsed.date.era ?? date.era });
+  };
+  const understood = parsed.date ? Array.from(new Set([parsed.date.era, formatFullDate(parsed.date, calendar)].filter(Boolean))).join(" • ") : "";
 
   const eras = Array.from(new Set(notes.map(n=>n.date.era).filter(Boolean))) as string[];
   const millennia = Array.from(new Set(notes.map(n=>n.date.millennium).filter(v=>v!=null))) as number[];
@@ -693,6 +2055,24 @@ function DateEditor({ date, onChange }:{ date: AtlasDate, onChange:(d:AtlasDate)
 
   return (
     <div className="col-span-2 grid grid-cols-6 gap-3">
+      <div className="col-span-6">
+        <label className="text-xs font-semibold text-slate-600">Data por extenso</label>
+        <div className="flex gap-2">
+          <Input
+            value={text}
+            onChange={e=>setText(e.target.value)}
+            onKeyDown={e=>{ if(e.key === "Enter"){ e.preventDefault(); applyText(); } }}
+            placeholder="Ex.: 12 de Lume de 340 a.U., século 4, meados do 2º milênio, Era de Ouro, ano 15"
+          />
+          <Button variant="outline" disabled={!parsed.date || parsed.errors.length > 0} onClick={applyText}>Usar</Button>
+        </div>
+        {parsed.errors.map((err, i) => <div key={i} className="text-xs text-red-600 mt-1">{err}</div>)}
+        {parsed.date && !parsed.errors.length && (
+          <div className="text-xs text-muted-foreground mt-1">
+            Entendi: {understood}
+          </div>
+        )}
+      </div>
       <div className="col-span-6">
         <label className="text-xs font-semibold text-purple-600">Era</label>
         <input list="eras-list" value={date.era ?? ""} onChange={e=>update("era", e.target.value)} placeholder="Ex.: Era de Ouro" className="w-full border rounded p-2 bg-gradient-to-r from-green-50 to-green-100 focus:outline-none focus:ring-2 focus:ring-green-400" />
@@ -701,8 +2081,9 @@ function DateEditor({ date, onChange }:{ date: AtlasDate, onChange:(d:AtlasDate)
         </datalist>
       </div>
       <div className="col-span-2">
-        <label className="text-xs font-semibold text-orange-600">Milênio</label>
+        <label className="text-xs font-semibold text-orange-600">Milênio{overrideToggle("millennium")}</label>
         <input
+          readOnly={isDerived("millennium")}
           list="millennia-list"
           type="number"
           value={date.millennium ?? ""}
@@ -714,8 +2095,9 @@ function DateEditor({ date, onChange }:{ date: AtlasDate, onChange:(d:AtlasDate)
         </datalist>
       </div>
       <div className="col-span-2">
-        <label className="text-xs font-semibold text-yellow-600">Século</label>
+        <label className="text-xs font-semibold text-yellow-600">Século{overrideToggle("century")}</label>
         <input
+          readOnly={isDerived("century")}
           list="centuries-list"
           type="number"
           value={date.century ?? ""}
@@ -727,8 +2109,9 @@ function DateEditor({ date, onChange }:{ date: AtlasDate, onChange:(d:AtlasDate)
         </datalist>
       </div>
       <div className="col-span-2">
-        <label className="text-xs font-semibold text-purple-600">Década</label>
+        <label className="text-xs font-semibold text-purple-600">Década{overrideToggle("decade")}</label>
         <input
+          readOnly={isDerived("decade")}
           list="decades-list"
           type="number"
           value={date.decade ?? ""}
@@ -739,58 +2122,309 @@ function DateEditor({ date, onChange }:{ date: AtlasDate, onChange:(d:AtlasDate)
           {decades.map((d,i)=> <option key={i} value={d} />)}
         </datalist>
       </div>
+      {range && (
+        <div className="col-span-6 text-xs text-muted-foreground">
+          Período coberto: anos {yearLabel(range.first)} a {yearLabel(range.last)}
+        </div>
+      )}
       <div className="col-span-2">
         <label className="text-xs font-semibold text-blue-600">Ano</label>
         <input type="number" value={date.year !== undefined ? String(date.year) : ""} onChange={e=>update("year", e.target.value===''?undefined:Number(e.target.value))} className="w-full border rounded p-2 bg-gradient-to-r from-blue-50 to-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-400" />
       </div>
+      {calendars.length > 1 && (
+        <div className="col-span-6">
+          <label className="text-xs font-semibold text-slate-600">Calendário</label>
+          <select
+            value={calendar.id}
+            onChange={e=>onChange(deriveDate({ ...date, calendar: e.target.value, epoch: undefined }, calendarOf({ calendar: e.target.value }, calendars)))}
+            className="w-full border rounded p-2 bg-gradient-to-r from-slate-50 to-slate-100 focus:outline-none focus:ring-2 focus:ring-slate-400"
+          >
+            {calendars.map(c=> <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+        </div>
+      )}
+      <div className="col-span-2">
+        <label className="text-xs font-semibold text-red-600">Época</label>
+        <select
+          value={epoch.id}
+          onChange={e=>update("epoch", e.target.value)}
+          className="w-full border rounded p-2 bg-gradient-to-r from-red-50 to-red-100 focus:outline-none focus:ring-2 focus:ring-red-400"
+        >
+          {calendar.epochs.map(ep=> <option key={ep.id} value={ep.id}>{ep.name}</option>)}
+        </select>
+      </div>
       <div className="col-span-2">
-  <label className="text-xs font-semibold text-red-600">Referência</label>
-  <select
-    value={date.relativeEra ?? "DU"}
-    onChange={e=>update("relativeEra", e.target.value as "AU" | "DU" | "ZERO")}
-    className="w-full border rounded p-2 bg-gradient-to-r from-red-50 to-red-100 focus:outline-none focus:ring-2 focus:ring-red-400"
-  >
-    <option value="DU">Depois da União (DU)</option>
-    <option value="AU">Antes da União (AU)</option>
-    <option value="ZERO">Ano 0</option>
-  </select>
-</div>
+        <label className="text-xs font-semibold text-red-600">Referência</label>
+        <select
+          value={date.relativeEra ?? "DU"}
+          onChange={e=>update("relativeEra", e.target.value as "AU" | "DU" | "ZERO")}
+          className="w-full border rounded p-2 bg-gradient-to-r from-red-50 to-red-100 focus:outline-none focus:ring-2 focus:ring-red-400"
+        >
+          <option value="DU">Depois de {epoch.name}{epoch.after ? ` (${epoch.after})` : ""}</option>
+          <option value="AU">Antes de {epoch.name}{epoch.before ? ` (${epoch.before})` : ""}</option>
+          <option value="ZERO">Ano 0</option>
+        </select>
+      </div>
       <div className="col-span-2">
         <label className="text-xs font-semibold text-indigo-600">Mês</label>
-        <select className="w-full border rounded p-2 bg-gradient-to-r from-indigo-50 to-indigo-100 focus:outline-none focus:ring-2 focus:ring-indigo-400" value={date.month ?? ''} onChange={e=>update("month", e.target.value===''?undefined:Number(e.target.value))}>
+        <select className="w-full border rounded p-2 bg-gradient-to-r from-indigo-50 to-indigo-100 focus:outline-none focus:ring-2 focus:ring-indigo-400" value={monthValue} onChange={e=>selectMonth(e.target.value)}>
           <option value="">—</option>
-          {calendar.months.map((m, idx)=> <option key={idx} value={idx+1}>{idx+1} - {m.name}</option>)}
+          {calendar.months.map((m, idx)=> <option key={idx} value={`m${idx+1}`}>{idx+1} - {m.name}</option>)}
+          {(calendar.intercalaryDays ?? []).map((f, idx)=> (
+            <option key={`f${idx}`} value={`f${idx}`}>★ {f.name}{f.leapOnly ? " (bissexto)" : ""}</option>
+          ))}
         </select>
       </div>
       <div className="col-span-2">
-        <label className="text-xs font-semibold text-pink-600">Dia</label>
-        <input type="number" value={date.day !== undefined ? String(date.day) : ""} onChange={e=>update("day", e.target.value===''?undefined:Number(e.target.value))} className="w-full border rounded p-2 bg-gradient-to-r from-pink-50 to-pink-100 focus:outline-none focus:ring-2 focus:ring-pink-400" />
+        <label className="text-xs font-semibold text-pink-600">Dia{weekday && <span className="ml-2 font-normal text-muted-foreground">({weekday})</span>}</label>
+        <input type="number" disabled={date.intercalary != null} value={date.day !== undefined ? String(date.day) : ""} onChange={e=>update("day", e.target.value===''?undefined:Number(e.target.value))} className="w-full border rounded p-2 bg-gradient-to-r from-pink-50 to-pink-100 focus:outline-none focus:ring-2 focus:ring-pink-400" />
+      </div>
+      <div className="col-span-6 flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={!!date.approximate} onChange={e=>onChange({ ...date, approximate: e.target.checked || undefined })} />
+          Aproximada (c.)
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            disabled={!hasYear}
+            checked={date.latestYear != null}
+            onChange={e=>onChange({ ...date, latestYear: e.target.checked && startYear != null ? startYear + 1 : undefined })}
+          />
+          Incerta: entre este ano e
+        </label>
+        {date.latestYear != null && (
+          <input
+            type="number"
+            value={date.latestYear}
+            onChange={e=>onChange({ ...date, latestYear: Number(e.target.value) })}
+            title={`Ano com sinal: negativo = antes de ${epoch.name}`}
+            className="w-24 border rounded p-1"
+          />
+        )}
       </div>
+      {windowError && <div className="col-span-6 text-xs text-red-600">{windowError}</div>}
+      {dayError && <div className="col-span-6 text-xs text-red-600">{dayError}</div>}
+      {!dayError && <CycleLine date={date} calendar={calendar} className="col-span-6" />}
     </div>
   );
 }
 
+// Data final opcional: transforma a nota em um período (reinado, guerra, era)
+function EndDateEditor({ start, end, onChange }:{ start: AtlasDate, end?: AtlasDate, onChange:(d?:AtlasDate)=>void }){
+  const { calendars } = useTL();
+  const calendar = calendarOf(start, calendars);
+  const startSpan = dateSpan(start, calendar);
+  const endSpan = end ? dateSpan(end, calendarOf(end, calendars)) : undefined;
+  const inverted = !!(startSpan && endSpan && endSpan.end < startSpan.start);
+  // a duração é contada no calendário da data inicial
+  const duration = end && !inverted ? durationBetween(start, convertDate(end, calendarOf(end, calendars), calendar), calendar) : undefined;
+
+  return (
+    <div className="col-span-2 space-y-2">
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        <input
+          type="checkbox"
+          checked={!!end}
+          onChange={e=>onChange(e.target.checked ? { era: start.era, relativeEra: start.relativeEra, calendar: start.calendar, epoch: start.epoch } : undefined)}
+        />
+        Período (tem data final)
+      </label>
+      {end && (
+        <>
+          <DateEditor date={end} onChange={onChange} />
+          {inverted && <div className="text-xs text-red-600">A data final é anterior à data inicial.</div>}
+          {duration && <div className="text-xs text-muted-foreground">Duração: {formatDuration(duration)}</div>}
+        </>
+      )}
+    </div>
+  );
+}
+
+// No editor as fases ficam em texto até salvar (senão a vírgula some enquanto se digita)
+type CycleDraft = Omit<Cycle, "phases"> & { phases: string };
+const toCycleDrafts = (cycles?: Cycle[]): CycleDraft[] => (cycles ?? []).map(c => ({ ...c, phases: c.phases.join(", ") }));
+
+// Linhas do editor de meses/dias da semana. `key` identifica a linha ao reordenar;
+// `from` é a posição (1-based) antes da edição, usada para migrar as datas.
+type MonthRow = { key: string; name: string; days: string; from?: number };
+type WeekdayRow = { key: string; name: string; from?: number };
+type FestivalDraft = { name: string; afterMonth: number; leapOnly?: boolean; from?: number };
+const toMonthRows = (c: AtlasCalendar): MonthRow[] => c.months.map((m, i) => ({ key: uuid(), name: m.name, days: String(m.days), from: i + 1 }));
+const toWeekdayRows = (c: AtlasCalendar): WeekdayRow[] => c.daysOfWeek.map((name, i) => ({ key: uuid(), name, from: i + 1 }));
+const toFestivalDrafts = (c: AtlasCalendar): FestivalDraft[] => (c.intercalaryDays ?? []).map((f, i) => ({ ...f, from: i }));
+
+function moveItem<T>(list: T[], i: number, dir: -1 | 1){
+  const j = i + dir;
+  if(j < 0 || j >= list.length) return list;
+  const copy = [...list];
+  [copy[i], copy[j]] = [copy[j], copy[i]];
+  return copy;
+}
+
+// Erros de uma lista de nomes (vazio ou repetido), por linha
+function nameErrors(names: string[]){
+  return names.map((n, i) => {
+    const name = n.trim().toLowerCase();
+    if(!name) return "Informe um nome.";
+    if(names.findIndex(x => x.trim().toLowerCase() === name) !== i) return "Nome repetido.";
+    return undefined;
+  });
+}
+
+const REASON_LABELS: Record<MigrationReason, string> = {
+  removed: "mês removido",
+  renumbered: "renumerado",
+  clamped: "dia ajustado",
+  dayDropped: "dia removido",
+  festivalRemoved: "dia intercalar removido",
+};
+
 function SettingsDialog(){
-  const { calendar, updateCalendar } = useTL();
+  const { calendar, calendars, notes, updateCalendar, addCalendar, removeCalendar } = useTL();
   const [open, setOpen] = useState(false);
-  const [days, setDays] = useState(calendar.daysOfWeek.join(", "));
-  const [months, setMonths] = useState(calendar.months.map(m=>`${m.name}:${m.days}`).join(", "));
+  const [editingId, setEditingId] = useState<string>(calendar.id); // "new" = calendário ainda não criado
+  const [name, setName] = useState(calendar.name);
+  const [anchorDay, setAnchorDay] = useState(calendar.anchorDay);
+  const [weekdayRows, setWeekdayRows] = useState<WeekdayRow[]>(toWeekdayRows(calendar));
+  const [monthRows, setMonthRows] = useState<MonthRow[]>(toMonthRows(calendar));
   const [ypc, setYpc] = useState(calendar.yearsPerCentury);
   const [cpm, setCpm] = useState(calendar.centuriesPerMillennium);
   const [dpc, setDpc] = useState(calendar.decadesPerCentury);
+  const [epochs, setEpochs] = useState<Epoch[]>(calendar.epochs);
+  const [weekAnchor, setWeekAnchor] = useState(calendar.weekAnchor ?? defaultWeekAnchor);
+  const [leap, setLeap] = useState({ every: 0, except: 0, month: 0, ...calendar.leap }); // 0 = sem regra / sem mês
+  const [festivals, setFestivals] = useState<FestivalDraft[]>(toFestivalDrafts(calendar));
+  const [cycles, setCycles] = useState<CycleDraft[]>(toCycleDrafts(calendar.cycles));
+  // revisão das notas afetadas antes de salvar mudanças nos meses
+  const [review, setReview] = useState(false);
+  const [remap, setRemap] = useState<Record<number, number | undefined>>({});
+  const [overflow, setOverflow] = useState<CalendarMigration["overflow"]>("clamp");
+  const isPrimary = editingId === calendars[0].id;
+
+  function loadFrom(c: AtlasCalendar, id = c.id){
+    setEditingId(id);
+    setName(c.name);
+    setAnchorDay(c.anchorDay);
+    setWeekdayRows(toWeekdayRows(c));
+    setMonthRows(toMonthRows(c));
+    setYpc(c.yearsPerCentury);
+    setCpm(c.centuriesPerMillennium);
+    setDpc(c.decadesPerCentury);
+    setEpochs(c.epochs);
+    setWeekAnchor(c.weekAnchor ?? defaultWeekAnchor);
+    setLeap({ every: 0, except: 0, month: 0, ...c.leap });
+    setFestivals(toFestivalDrafts(c));
+    setCycles(toCycleDrafts(c.cycles));
+    setReview(false);
+    setRemap({});
+    setOverflow("clamp");
+  }
+
+  // o diálogo é montado antes do load(), então recarrega os valores ao abrir
+  function handleOpenChange(o: boolean){
+    if(o) loadFrom(calendar);
+    setOpen(o);
+  }
+
+  function selectCalendar(id: string){
+    if(id === "new") {
+      loadFrom({ ...calendars[0], name: "Novo calendário", epochs: calendars[0].epochs.map(ep => ({ ...ep, id: uuid() })) }, "new");
+      // um calendário novo não tem datas para migrar
+      setMonthRows(rows => rows.map(r => ({ ...r, from: undefined })));
+      setFestivals(list => list.map(f => ({ ...f, from: undefined })));
+    }
+    else loadFrom(calendars.find(c => c.id === id) ?? calendar);
+  }
+
+  const updateEpoch = (id: string, patch: Partial<Epoch>) => setEpochs(list => list.map(ep => ep.id === id ? { ...ep, ...patch } : ep));
+  const updateFestival = (idx: number, patch: Partial<FestivalDraft>) =>
+    setFestivals(list => list.map((f, i) => i === idx ? { ...f, ...patch } : f));
+  const updateCycle = (id: string, patch: Partial<CycleDraft>) => setCycles(list => list.map(c => c.id === id ? { ...c, ...patch } : c));
+
+  // Reordenar/remover meses renumera o que aponta para eles (bissexto, dias intercalares, âncoras)
+  function changeMonths(rows: MonthRow[]){
+    const renumber = (month: number, fallback: number) => {
+      const key = monthRows[month - 1]?.key;
+      const idx = rows.findIndex(r => r.key === key);
+      return idx >= 0 ? idx + 1 : fallback;
+    };
+    setLeap(l => ({ ...l, month: l.month ? renumber(l.month, 0) : 0 }));
+    setFestivals(list => list.map(f => ({ ...f, afterMonth: f.afterMonth ? renumber(f.afterMonth, Math.min(f.afterMonth - 1, rows.length)) : 0 })));
+    setWeekAnchor(a => ({ ...a, month: renumber(a.month, 1) }));
+    setCycles(list => list.map(c => ({ ...c, anchor: { ...c.anchor, month: renumber(c.anchor.month, 1) } })));
+    setMonthRows(rows);
+  }
+  function changeWeekdays(rows: WeekdayRow[]){
+    const key = weekdayRows[weekAnchor.weekday]?.key;
+    setWeekAnchor(a => ({ ...a, weekday: Math.max(rows.findIndex(r => r.key === key), 0) }));
+    setWeekdayRows(rows);
+  }
+  const updateMonth = (i: number, patch: Partial<MonthRow>) => changeMonths(monthRows.map((r, idx) => idx === i ? { ...r, ...patch } : r));
+
+  // Validação (mostrada ao lado de cada campo; impede salvar)
+  const monthNameErrors = nameErrors(monthRows.map(r => r.name));
+  const monthDayErrors = monthRows.map(r => /^\d+$/.test(r.days.trim()) && Number(r.days) > 0 ? undefined : "Dias: número inteiro maior que zero.");
+  const weekdayErrors = nameErrors(weekdayRows.map(r => r.name));
+  const generalErrors = [
+    !monthRows.length && "O calendário precisa de pelo menos um mês.",
+    !(ypc > 0 && cpm > 0 && dpc > 0) && "Anos por século, séculos por milênio e décadas por século devem ser maiores que zero.",
+  ].filter(Boolean) as string[];
+  const hasErrors = generalErrors.length > 0 || [...monthNameErrors, ...monthDayErrors, ...weekdayErrors].some(Boolean);
+
+  function buildSpec(){
+    const daysOfWeek = weekdayRows.map(r => r.name.trim());
+    const monthsSpec = monthRows.map(r => ({ name: r.name.trim(), days: Number(r.days) }));
+    const epochsSpec = epochs.map((ep, i) => ({ ...ep, name: ep.name.trim() || `Época ${i+1}`, offset: i === 0 ? 0 : ep.offset }));
+    const spec = {
+      name: name.trim() || "Calendário",
+      anchorDay: isPrimary ? 0 : anchorDay,
+      daysOfWeek, months: monthsSpec, yearsPerCentury: ypc, centuriesPerMillennium: cpm, decadesPerCentury: dpc, epochs: epochsSpec,
+      weekAnchor: { ...weekAnchor, weekday: Math.min(weekAnchor.weekday, Math.max(daysOfWeek.length - 1, 0)) },
+      leap: leap.every > 0
+        ? { every: leap.every, except: leap.except > 0 ? leap.except : undefined, month: leap.month > 0 && leap.month <= monthsSpec.length ? leap.month : undefined }
+        : undefined,
+      intercalaryDays: festivals.length
+        ? festivals.map((f, i) => ({ name: f.name.trim() || `Dia intercalar ${i+1}`, afterMonth: Math.min(Math.max(f.afterMonth, 0), monthsSpec.length), leapOnly: f.leapOnly || undefined }))
+        : undefined,
+      cycles: cycles.length
+        ? cycles.map((c, i): Cycle => ({
+            id: c.id,
+            name: c.name.trim() || `Ciclo ${i+1}`,
+            period: c.period > 0 ? c.period : 1,
+            anchor: c.anchor,
+            phases: c.phases.split(",").map(x=>x.trim()).filter(Boolean),
+          }))
+        : undefined,
+    };
+    return spec;
+  }
+
+  // Para onde vai cada mês/dia intercalar antigo das datas salvas neste calendário
+  const editing = calendars.find(c => c.id === editingId);
+  const migration: CalendarMigration = {
+    months: (editing?.months ?? []).map((_, i) => { const idx = monthRows.findIndex(r => r.from === i + 1); return idx >= 0 ? idx + 1 : undefined; }),
+    festivals: (editing?.intercalaryDays ?? []).map((_, i) => { const idx = festivals.findIndex(f => f.from === i); return idx >= 0 ? idx : undefined; }),
+    remap,
+    overflow,
+  };
+  const next: AtlasCalendar | undefined = editing && !hasErrors ? { ...editing, ...buildSpec() } : undefined;
+  const affected = editing && next
+    ? planMigration(notes, d => calendarOf(d, calendars).id === editing.id, migration, next)
+    : [];
+  const removedInUse = removedMonthsInUse(affected);
 
   function save(){
-    const daysOfWeek = days.split(",").map(s=>s.trim()).filter(Boolean);
-    const monthsSpec = months.split(",").map(s=>s.trim()).filter(Boolean).map(pair=>{
-      const [name, days] = pair.split(":").map(x=>x.trim());
-      return { name, days: Number(days)||30 };
-    });
-    updateCalendar({ daysOfWeek, months: monthsSpec, yearsPerCentury: ypc, centuriesPerMillennium: cpm, decadesPerCentury: dpc });
+    if(hasErrors) return;
+    const spec = buildSpec();
+    if(editingId === "new") addCalendar(spec);
+    else if(affected.length && !review) return setReview(true);
+    else updateCalendar(spec, editingId, next && (d => migrateDate(d, migration, next).date));
     setOpen(false);
   }
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         <Button variant="outline" className="flex items-center gap-2"><Cog size={16}/>Calendário</Button>
       </DialogTrigger>
@@ -798,14 +2432,204 @@ function SettingsDialog(){
         <DialogHeader>
           <DialogTitle>Personalizar Calendário de Atlas</DialogTitle>
         </DialogHeader>
+        {review && editing && next ? (
+          <div className="grid gap-3">
+            <div className="text-sm">
+              {affected.length} {affected.length === 1 ? "nota tem datas que mudam" : "notas têm datas que mudam"} com as alterações em {editing.name}. Confira antes de salvar.
+            </div>
+            {removedInUse.map(m => (
+              <div key={m} className="flex items-center gap-2 text-sm">
+                <span className="whitespace-nowrap">Datas em {editing.months[m - 1]?.name} (removido):</span>
+                <select
+                  className="border rounded p-2"
+                  value={remap[m] ?? 0}
+                  onChange={e=>setRemap(r => ({ ...r, [m]: Number(e.target.value) || undefined }))}
+                >
+                  <option value={0}>manter só o ano</option>
+                  {next.months.map((x, i) => <option key={i} value={i+1}>mover para {x.name}</option>)}
+                </select>
+              </div>
+            ))}
+            <div className="flex items-center gap-2 text-sm">
+              <span className="whitespace-nowrap">Dia maior que o mês:</span>
+              <select className="border rounded p-2" value={overflow} onChange={e=>setOverflow(e.target.value as CalendarMigration["overflow"])}>
+                <option value="clamp">usar o último dia do mês</option>
+                <option value="dropDay">manter só mês e ano</option>
+              </select>
+            </div>
+            <div className="max-h-72 overflow-y-auto rounded border divide-y text-sm">
+              {affected.map(a => (
+                <div key={a.note.id} className="p-2">
+                  <div className="font-medium">{a.note.title}</div>
+                  {([["date", a.note.date, a.date], ["endDate", a.note.endDate, a.endDate]] as const).map(([field, before, r]) => r && before && (
+                    <div key={field} className="text-xs text-muted-foreground">
+                      {field === "endDate" && "Fim: "}{formatFullDate(before, editing)} → {formatFullDate(r.date, next)}
+                      <span className="ml-2 text-orange-600">({r.reasons.map(x => REASON_LABELS[x]).join(", ")})</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={()=>setReview(false)}>Voltar</Button>
+              <Button onClick={save}>Confirmar e salvar</Button>
+            </div>
+          </div>
+        ) : (
         <div className="grid gap-3">
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <label className="text-xs text-muted-foreground">Calendário</label>
+              <select value={editingId} onChange={e=>selectCalendar(e.target.value)} className="w-full border rounded p-2">
+                {calendars.map((c, i) => <option key={c.id} value={c.id}>{c.name}{i === 0 ? " (principal)" : ""}</option>)}
+                <option value="new">+ Novo calendário</option>
+              </select>
+            </div>
+            {!isPrimary && editingId !== "new" && (
+              <Button
+                variant="destructive"
+                onClick={()=>{
+                  if(confirm("Excluir este calendário? As datas registradas nele passam para o calendário principal.")){
+                    removeCalendar(editingId);
+                    setOpen(false);
+                  }
+                }}
+              >
+                Excluir
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-muted-foreground">Nome</label>
+              <Input value={name} onChange={e=>setName(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground">Início do ano 0 (dias a partir do ano 0 do principal)</label>
+              <Input type="number" value={isPrimary ? 0 : anchorDay} disabled={isPrimary} onChange={e=>setAnchorDay(Number(e.target.value)||0)} />
+            </div>
+          </div>
+          <div>
+            <label className="text-xs text-muted-foreground">Dias da semana</label>
+            <div className="space-y-1 mt-1">
+              {weekdayRows.map((r, i) => (
+                <div key={r.key}>
+                  <div className="grid grid-cols-[2rem_1fr_auto_auto_auto] items-center gap-2">
+                    <span className="text-xs text-muted-foreground text-right">{i+1}</span>
+                    <Input value={r.name} className={weekdayErrors[i] ? "border-red-500" : ""} onChange={e=>changeWeekdays(weekdayRows.map(x => x.key === r.key ? { ...x, name: e.target.value } : x))} />
+                    <Button size="icon" variant="ghost" disabled={i === 0} onClick={()=>changeWeekdays(moveItem(weekdayRows, i, -1))} title="Mover para cima"><ArrowUp size={16}/></Button>
+                    <Button size="icon" variant="ghost" disabled={i === weekdayRows.length - 1} onClick={()=>changeWeekdays(moveItem(weekdayRows, i, 1))} title="Mover para baixo"><ArrowDown size={16}/></Button>
+                    <Button size="icon" variant="ghost" onClick={()=>changeWeekdays(weekdayRows.filter(x => x.key !== r.key))} title="Remover dia"><X size={16}/></Button>
+                  </div>
+                  {weekdayErrors[i] && <div className="ml-10 text-xs text-red-600">{weekdayErrors[i]}</div>}
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={()=>changeWeekdays([...weekdayRows, { key: uuid(), name: "" }])}>
+                <Plus size={14}/> Novo dia
+              </Button>
+            </div>
+          </div>
+          <div>
+            <label className="text-xs text-muted-foreground">Âncora da semana (uma data cujo dia da semana é conhecido; ano na época base)</label>
+            <div className="flex items-center gap-2 text-sm">
+              <Input type="number" className="w-20" value={weekAnchor.day} onChange={e=>setWeekAnchor({ ...weekAnchor, day: Number(e.target.value)||1 })} />
+              <select className="border rounded p-2" value={weekAnchor.month} onChange={e=>setWeekAnchor({ ...weekAnchor, month: Number(e.target.value) })}>
+                {monthRows.map((m, i) => <option key={m.key} value={i+1}>{m.name}</option>)}
+              </select>
+              <Input type="number" className="w-24" value={weekAnchor.year} onChange={e=>setWeekAnchor({ ...weekAnchor, year: Number(e.target.value)||0 })} />
+              <span className="whitespace-nowrap">foi um</span>
+              <select className="border rounded p-2" value={weekAnchor.weekday} onChange={e=>setWeekAnchor({ ...weekAnchor, weekday: Number(e.target.value) })}>
+                {weekdayRows.map((d, i) => <option key={d.key} value={i}>{d.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="text-xs text-muted-foreground">Meses</label>
+            <div className="space-y-1 mt-1">
+              <div className="grid grid-cols-[2rem_2fr_1fr_auto_auto_auto] gap-2 text-[11px] text-muted-foreground">
+                <span/><span>Nome</span><span>Dias</span><span/><span/><span/>
+              </div>
+              {monthRows.map((r, i) => (
+                <div key={r.key}>
+                  <div className="grid grid-cols-[2rem_2fr_1fr_auto_auto_auto] items-center gap-2">
+                    <span className="text-xs text-muted-foreground text-right">{i+1}</span>
+                    <Input value={r.name} className={monthNameErrors[i] ? "border-red-500" : ""} onChange={e=>updateMonth(i, { name: e.target.value })} />
+                    <Input value={r.days} inputMode="numeric" className={monthDayErrors[i] ? "border-red-500" : ""} onChange={e=>updateMonth(i, { days: e.target.value })} />
+                    <Button size="icon" variant="ghost" disabled={i === 0} onClick={()=>changeMonths(moveItem(monthRows, i, -1))} title="Mover para cima"><ArrowUp size={16}/></Button>
+                    <Button size="icon" variant="ghost" disabled={i === monthRows.length - 1} onClick={()=>changeMonths(moveItem(monthRows, i, 1))} title="Mover para baixo"><ArrowDown size={16}/></Button>
+                    <Button size="icon" variant="ghost" onClick={()=>changeMonths(monthRows.filter(x => x.key !== r.key))} title="Remover mês"><X size={16}/></Button>
+                  </div>
+                  {(monthNameErrors[i] || monthDayErrors[i]) && (
+                    <div className="ml-10 text-xs text-red-600">{[monthNameErrors[i], monthDayErrors[i]].filter(Boolean).join(" ")}</div>
+                  )}
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={()=>changeMonths([...monthRows, { key: uuid(), name: "", days: "30" }])}>
+                <Plus size={14}/> Novo mês
+              </Button>
+            </div>
+          </div>
+          <div>
+            <label className="text-xs text-muted-foreground">Anos bissextos (0 = sem bissextos)</label>
+            <div className="flex items-center gap-2 text-sm">
+              <span className="whitespace-nowrap">A cada</span>
+              <Input type="number" className="w-20" value={leap.every} onChange={e=>setLeap({ ...leap, every: Math.max(Number(e.target.value)||0, 0) })} />
+              <span className="whitespace-nowrap">anos, exceto a cada</span>
+              <Input type="number" className="w-20" value={leap.except} disabled={!leap.every} onChange={e=>setLeap({ ...leap, except: Math.max(Number(e.target.value)||0, 0) })} />
+              <span className="whitespace-nowrap">; dia extra em</span>
+              <select className="border rounded p-2" value={leap.month} disabled={!leap.every} onChange={e=>setLeap({ ...leap, month: Number(e.target.value) })}>
+                <option value={0}>nenhum mês</option>
+                {monthRows.map((m, i) => <option key={m.key} value={i+1}>{m.name}</option>)}
+              </select>
+            </div>
+          </div>
           <div>
-            <label className="text-xs text-muted-foreground">Dias da semana (separados por vírgula)</label>
-            <Input value={days} onChange={e=>setDays(e.target.value)} />
+            <label className="text-xs text-muted-foreground">Dias intercalares (festivais fora dos meses)</label>
+            <div className="space-y-2 mt-1">
+              {festivals.map((f, i) => (
+                <div key={i} className="grid grid-cols-[2fr_2fr_auto_auto] items-center gap-2">
+                  <Input value={f.name} onChange={e=>updateFestival(i, { name: e.target.value })} placeholder="Ex.: Festa da Colheita" />
+                  <select className="border rounded p-2 text-sm" value={f.afterMonth} onChange={e=>updateFestival(i, { afterMonth: Number(e.target.value) })}>
+                    <option value={0}>antes do primeiro mês</option>
+                    {monthRows.map((m, idx) => <option key={m.key} value={idx+1}>depois de {m.name}</option>)}
+                  </select>
+                  <label className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+                    <input type="checkbox" checked={!!f.leapOnly} onChange={e=>updateFestival(i, { leapOnly: e.target.checked })} />
+                    só em bissextos
+                  </label>
+                  <Button size="icon" variant="ghost" onClick={()=>setFestivals(list => list.filter((_, idx) => idx !== i))} title="Remover dia intercalar"><X size={16}/></Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={()=>setFestivals(list => [...list, { name: "", afterMonth: 0 }])}>
+                <Plus size={14}/> Novo dia intercalar
+              </Button>
+            </div>
           </div>
           <div>
-            <label className="text-xs text-muted-foreground">Meses (formato Nome:Dias, separados por vírgula)</label>
-            <Input value={months} onChange={e=>setMonths(e.target.value)} />
+            <label className="text-xs text-muted-foreground">Ciclos (luas, estações, marés...; a primeira fase começa na data de referência)</label>
+            <div className="space-y-2 mt-1">
+              {cycles.map(c => (
+                <div key={c.id} className="rounded border p-2 space-y-2">
+                  <div className="grid grid-cols-[2fr_1fr_auto] items-center gap-2">
+                    <Input value={c.name} onChange={e=>updateCycle(c.id, { name: e.target.value })} placeholder="Ex.: Lua Prata" />
+                    <Input type="number" step="any" value={c.period} onChange={e=>updateCycle(c.id, { period: Number(e.target.value)||0 })} title="Período em dias" />
+                    <Button size="icon" variant="ghost" onClick={()=>setCycles(list => list.filter(x => x.id !== c.id))} title="Remover ciclo"><X size={16}/></Button>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="whitespace-nowrap text-muted-foreground">Referência:</span>
+                    <Input type="number" className="w-20" value={c.anchor.day} onChange={e=>updateCycle(c.id, { anchor: { ...c.anchor, day: Number(e.target.value)||1 } })} />
+                    <select className="border rounded p-2" value={c.anchor.month} onChange={e=>updateCycle(c.id, { anchor: { ...c.anchor, month: Number(e.target.value) } })}>
+                      {monthRows.map((m, i) => <option key={m.key} value={i+1}>{m.name}</option>)}
+                    </select>
+                    <Input type="number" className="w-24" value={c.anchor.year} onChange={e=>updateCycle(c.id, { anchor: { ...c.anchor, year: Number(e.target.value)||0 } })} />
+                  </div>
+                  <Input value={c.phases} onChange={e=>updateCycle(c.id, { phases: e.target.value })} placeholder="Fases separadas por vírgula (opcional)" />
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={()=>setCycles(list => [...list, { id: uuid(), name: "", period: 30, anchor: { year: 0, month: 1, day: 1 }, phases: "Nova, Crescente, Cheia, Minguante" }])}>
+                <Plus size={14}/> Novo ciclo
+              </Button>
+            </div>
           </div>
           <div className="grid grid-cols-3 gap-2">
             <div>
@@ -821,79 +2645,99 @@ function SettingsDialog(){
               <Input type="number" value={dpc} onChange={e=>setDpc(Number(e.target.value)||10)} />
             </div>
           </div>
+          <div>
+            <label className="text-xs text-muted-foreground">Épocas (marcos de contagem dos anos; a primeira é a base)</label>
+            <div className="space-y-2 mt-1">
+              <div className="grid grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2 text-[11px] text-muted-foreground">
+                <span>Nome</span><span>Antes</span><span>Depois</span><span>Ano 0 na base</span><span/>
+              </div>
+              {epochs.map((ep, i) => (
+                <div key={ep.id} className="grid grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2">
+                  <Input value={ep.name} onChange={e=>updateEpoch(ep.id, { name: e.target.value })} placeholder="Ex.: Cataclismo" />
+                  <Input value={ep.before} onChange={e=>updateEpoch(ep.id, { before: e.target.value })} placeholder="a.C." />
+                  <Input value={ep.after} onChange={e=>updateEpoch(ep.id, { after: e.target.value })} placeholder="d.C." />
+                  <Input type="number" value={i === 0 ? 0 : ep.offset} disabled={i === 0} onChange={e=>updateEpoch(ep.id, { offset: Number(e.target.value)||0 })} />
+                  <Button size="icon" variant="ghost" disabled={i === 0} onClick={()=>setEpochs(list => list.filter(x => x.id !== ep.id))} title="Remover época"><X size={16}/></Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={()=>setEpochs(list => [...list, { id: uuid(), name: "", before: "", after: "", offset: 0 }])}>
+                <Plus size={14}/> Nova época
+              </Button>
+            </div>
+          </div>
+          {generalErrors.map((e, i) => <div key={i} className="text-xs text-red-600">{e}</div>)}
           <div className="flex justify-end gap-2">
             <Button variant="outline" onClick={()=>setOpen(false)}>Cancelar</Button>
-            <Button onClick={save}>Salvar</Button>
+            <Button onClick={save} disabled={hasErrors}>Salvar</Button>
           </div>
         </div>
+        )}
       </DialogContent>
     </Dialog>
   );
 }
 
-function compareDates(a: Note, b: Note) {
-  const getNumericYear = (n: Note) => {
-    if (!n.date.year) return 0;
-    if (n.date.relativeEra === "AU") {
-      // antes da União → trata como negativo
-      return -n.date.year;
-    }
-    return n.date.year;
-  };
-
-  return getNumericYear(a) - getNumericYear(b);
+// Notas com as datas no calendário de exibição. São cópias só para leitura:
+// edições devem partir da nota original da store (mesmo id).
+function useViewNotes(){
+  const { notes, calendars, calendar } = useTL();
+  return useMemo(()=> notes.map(n => noteInCalendar(n, calendars, calendar)), [notes, calendars, calendar]);
 }
 
+// Ordenação cronológica única para toda a UI
+function useChronology(){
+  const { calendar, displayEpoch } = useTL();
+  const notes = useViewNotes();
+  return useMemo(()=> createChronology(notes, calendar, displayEpoch), [notes, calendar, displayEpoch]);
+}
 
 // ------------------ Filtering integration ------------------
-function useGroupedNotes(){
-  const { notes, zoom, search, filters } = useTL();
+function useSearchIndex(){
+  const notes = useTL(s => s.notes);
+  return useMemo(()=> buildSearchIndex(notes), [notes]);
+}
+
+// Notas visíveis (pesquisa + filtros de tag), em ordem cronológica
+function useFilteredNotes(){
+  const { search, filters } = useTL();
+  const notes = useViewNotes();
+  const chrono = useChronology();
+  const index = useSearchIndex();
   return useMemo(()=>{
-    let filtered = notes;
+    let filtered = [...notes].sort(chrono.compare);
     if(search.trim()){
-      filtered = filtered.filter(n =>
-        n.title.toLowerCase().includes(search.toLowerCase()) ||
-        (n.description||"").toLowerCase().includes(search.toLowerCase())
-      );
-    }
-    if(filters.length){
-      filtered = filtered.filter(n=> (n.tags||[]).some(t=>filters.includes(t)));
-    }
-
-    function buildKey(n: Note, level: Level){
-      const d = n.date;
-      if(level === "ERA")        return `${d.era||"(Sem Era)"}`;
-      if(level === "MILLENNIUM") return `${d.era||"?"}::${d.millennium??"?"}`;
-      if(level === "CENTURY")    return `${d.era||"?"}::${d.millennium??"?"}::${d.century??"?"}`;
-      if(level === "DECADE")     return `${d.era||"?"}::${d.millennium??"?"}::${d.century??"?"}::${d.decade??"?"}`;
-      return `${d.era||"?"}::${d.millennium??"?"}::${d.century??"?"}::${d.decade??"?"}::${d.year??"?"}`;
+      // sem acento e com tolerância a erros de digitação
+      const found = new Set(searchNotes(index, search).map(h => h.id));
+      filtered = filtered.filter(n => found.has(n.id));
     }
-
-    const groups = new Map<string, Note[]>();
-    for(const n of filtered){
-      let key: string;
-      if(zoom === "ERA")         key = buildKey(n, "ERA");
-      else if(zoom === "MILLENNIUM") key = buildKey(n, "MILLENNIUM");
-      else if(zoom === "CENTURY")    key = buildKey(n, "CENTURY");
-      else if(zoom === "DECADE")     key = buildKey(n, "CENTURY");
-      else                            key = buildKey(n, "YEAR");
-      if(!groups.has(key)) groups.set(key, []);
-      groups.get(key)!.push(n);
+    if(!isTagFilterEmpty(filters)){
+      filtered = filtered.filter(n=> matchesTagFilter(n.tags, filters));
     }
+    return filtered;
+  }, [notes, search, filters, chrono, index]);
+}
 
-    const entries = Array.from(groups.entries()).sort((a,b)=>{
-      const firstA = a[1][0];
-      const firstB = b[1][0];
-      return compareDates(firstA, firstB);
-    });
+function useGroupedNotes(){
+  const zoom = useTL(s => s.zoom);
+  const filtered = useFilteredNotes();
+  const chrono = useChronology();
+  // No zoom DECADE os cartões principais continuam sendo os séculos
+  return useMemo(()=> chrono.group(filtered, zoom === "DECADE" ? "CENTURY" : zoom), [filtered, zoom, chrono]);
+}
 
-    return entries.map(([key, items])=> ({ key, items: items.sort(compareDates) }));
-  }, [notes, zoom, search, filters]);
+// Abre o cartão quando a nota em foco está entre `items`
+function useOpenOnFocus(items: Note[], open: () => void){
+  const focus = useTL(s => s.focus);
+  useEffect(()=>{
+    if(focus && items.some(n => n.id === focus.id)) open();
+  }, [focus]);
 }
 
 function Timeline(){
   const { calendar, zoom, load, layout } = useTL();
   const groups = useGroupedNotes();
+  const bars = useMemo(()=> layoutSpanBars(groups), [groups]);
+  const rowsRef = useRef<HTMLDivElement>(null);
   useEffect(()=>{ load(); }, []);
 
   const grad = "linear-gradient(to bottom, #22c55e, #fb923c, #facc15, #a855f7, #3b82f6)";
@@ -916,18 +2760,25 @@ function Timeline(){
         </Card>
       </div>
 
+      <SearchResults />
+
       {/* Linha + grupos (vertical ou horizontal) */}
       {layout === "HORIZONTAL" ? (
         <div className="col-span-12">
-          <HorizontalTimeline groups={groups} level={zoom} />
+          <HorizontalTimeline groups={groups} level={zoom} bars={bars} />
+        </div>
+      ) : layout === "GRAPH" ? (
+        <div className="col-span-12">
+          <RelationGraph />
         </div>
       ) : (
         <div className="col-span-12 relative min-h-[70vh]">
           <div className="absolute left-1/2 -translate-x-1/2 top-0 bottom-0 w-2 rounded-full" style={{ background: grad }} />
-          <div className="relative">
+          <div className="relative" ref={rowsRef}>
             {groups.map((g, i) => (
-              <GroupRow2 key={g.key} index={i} items={g.items} level={zoom} layout={layout} />
+              <GroupRow2 key={g.key} index={i} group={g} level={zoom} layout={layout} bars={bars[i]} />
             ))}
+            <RelationConnectors groups={groups} containerRef={rowsRef} />
           </div>
         </div>
       )}
@@ -938,9 +2789,441 @@ function Timeline(){
   );
 }
 
+// ---------- Resultados da pesquisa ----------
+function Highlighted({ text, ranges }:{ text: string, ranges?: Range[] }){
+  if(!ranges?.length) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  ranges.forEach(([a, b], i) => {
+    parts.push(text.slice(at, a), <mark key={i} className="bg-yellow-200 rounded px-0.5">{text.slice(a, b)}</mark>);
+    at = b;
+  });
+  parts.push(text.slice(at));
+  return <>{parts}</>;
+}
+
+const RESULTS_LIMIT = 100;
+
+// Notas encontradas, as mais relevantes primeiro; clicar abre os cartões até a nota
+function SearchResults(){
+  const { search, calendar, displayEpoch, focusNote, focus } = useTL();
+  const filtered = useFilteredNotes();
+  const index = useSearchIndex();
+  const [hidden, setHidden] = useState(false);
+  useEffect(()=> setHidden(false), [search]);
+
+  const results = useMemo(()=>{
+    if(!search.trim()) return undefined;
+    const visible = new Map(filtered.map(n => [n.id, n]));
+    return searchNotes(index, search, id => visible.has(id)).map(h => ({ note: visible.get(h.id)!, ranges: h.ranges }));
+  }, [search, filtered, index]);
+
+  if(!results || hidden) return null;
+  return (
+    <div className="col-span-12">
+      <Card>
+        <CardHeader className="py-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-sm">Resultados ({results.length})</CardTitle>
+            <Button size="icon" variant="ghost" onClick={()=>setHidden(true)} title="Esconder resultados"><X size={16}/></Button>
+          </div>
+        </CardHeader>
+        <CardContent className="max-h-80 overflow-auto space-y-1">
+          {!results.length && <div className="text-sm text-muted-foreground">Nada encontrado.</div>}
+          {results.slice(0, RESULTS_LIMIT).map(({ note, ranges }) => {
+            const fields = fieldsOf(note);
+            // trecho da descrição; se a palavra só apareceu nas tags, as tags
+            const text = !ranges.description.length && ranges.tags.length
+              ? { text: fields.tags, ranges: ranges.tags }
+              : snippet(fields.description, ranges.description);
+            return (
+              <button
+                key={note.id}
+                className={`w-full text-left rounded-md px-2 py-1 hover:bg-slate-100 ${focus?.id === note.id ? "bg-yellow-50" : ""}`}
+                onClick={()=>focusNote(note.id)}
+              >
+                <div className="flex items-baseline justify-between gap-2">
+                  <span className="font-medium"><Highlighted text={fields.title} ranges={ranges.title} /></span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">{formatNoteDate(note, calendar, note.level, displayEpoch)}</span>
+                </div>
+                {text.text && <div className="text-xs text-muted-foreground"><Highlighted text={text.text} ranges={text.ranges} /></div>}
+              </button>
+            );
+          })}
+          {results.length > RESULTS_LIMIT && <div className="text-xs text-muted-foreground">… e mais {results.length - RESULTS_LIMIT}.</div>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// ---------- Relações entre notas ----------
+// Relações da nota em edição: tipo e a nota do outro lado
+function RelationsEditor({ noteId, relations, onChange }:{ noteId: string, relations: Relation[], onChange: (r: Relation[]) => void }){
+  const notes = useTL(s => s.notes);
+  const [type, setType] = useState<RelationType>("CAUSE");
+  const [target, setTarget] = useState("");
+  const others = useMemo(()=> notes.filter(n => n.id !== noteId).sort((a, b) => a.title.localeCompare(b.title)), [notes, noteId]);
+  const titleOf = (id: string) => notes.find(n => n.id === id)?.title ?? "(nota na lixeira)";
+
+  return (
+    <div>
+      <label className="text-xs text-muted-foreground">Relações</label>
+      {relations.map((r, i) => (
+        <div key={`${r.type}:${r.target}`} className="flex items-center gap-2 text-sm py-0.5">
+          <span className="text-xs font-medium" style={{ color: RELATION_INFO[r.type].color }}>{RELATION_INFO[r.type].label}</span>
+          <span className="flex-1">{titleOf(r.target)}</span>
+          <button type="button" onClick={()=>onChange(relations.filter((_, j) => j !== i))} title="Remover relação"><X size={14}/></button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2 mt-1">
+        <select value={type} onChange={e=>setType(e.target.value as RelationType)} className="border rounded p-2">
+          {RELATION_TYPES.map(t => <option key={t} value={t}>{RELATION_INFO[t].label}</option>)}
+        </select>
+        <select value={target} onChange={e=>setTarget(e.target.value)} className="flex-1 border rounded p-2">
+          <option value="">Escolha a nota…</option>
+          {others.map(n => <option key={n.id} value={n.id}>{n.title}</option>)}
+        </select>
+        <Button type="button" variant="outline" disabled={!target} onClick={()=>{ onChange(addRelation(relations, { type, target }, noteId)); setTarget(""); }} title="Adicionar relação">
+          <Plus size={16}/>
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Relações e backlinks no diálogo de detalhes; clicar abre a outra nota
+function RelationLinks({ noteId, onOpen }:{ noteId: string, onOpen: (id: string) => void }){
+  const notes = useTL(s => s.notes);
+  const links = useMemo(()=> linksOf(notes, noteId), [notes, noteId]);
+  if(!links.length) return null;
+  const byLabel = new Map<string, NoteLink[]>();
+  links.forEach(l => byLabel.set(l.label, [...(byLabel.get(l.label) ?? []), l]));
+
+  return (
+    <div className="mt-4">
+      <h3 className="text-sm uppercase tracking-wider text-gray-400 mb-2">Relações</h3>
+      <div className="space-y-1 text-sm">
+        {Array.from(byLabel.entries()).map(([label, list]) => (
+          <div key={label} className="flex flex-wrap items-baseline gap-2">
+            <span className="text-xs font-medium" style={{ color: RELATION_INFO[list[0].type].color }}>{label}</span>
+            {list.map(l => {
+              const other = notes.find(n => n.id === l.other);
+              return other ? (
+                <button key={l.other} onClick={()=>onOpen(l.other)} className="text-blue-300 hover:underline">{other.title}</button>
+              ) : (
+                <span key={l.other} className="text-gray-500" title="A nota está na lixeira">(nota na lixeira)</span>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Ligações das relações sobre a linha vertical. Cada ponta vai até o card
+ * da nota quando ele está aberto na tela; senão, até o marcador do grupo
+ * que a mostra (de uma nota com período, o grupo mais perto da outra
+ * ponta). Duas notas no mesmo grupo fechado ganham um laço no marcador.
+ * As posições são medidas na tela e refeitas quando a altura muda.
+ */
+type ConnectorPoint = { x: number, y: number };
+
+function RelationConnectors({ groups, containerRef }:{ groups: PeriodGroup[], containerRef: React.RefObject<HTMLDivElement> }){
+  const notes = useTL(s => s.notes);
+  const [box, setBox] = useState<{ width: number, points: Record<string, ConnectorPoint[]> }>({ width: 0, points: {} });
+
+  const { links, groupsOf } = useMemo(()=>{
+    const groupsOf = new Map<string, string[]>();
+    groups.forEach(g => g.items.forEach(n => groupsOf.set(n.id, [...(groupsOf.get(n.id) ?? []), g.key])));
+    return { links: relationPairs(notes).filter(p => groupsOf.has(p.from) && groupsOf.has(p.to)), groupsOf };
+  }, [notes, groups]);
+
+  useLayoutEffect(()=>{
+    const el = containerRef.current;
+    if(!el || !links.length) return;
+    const measure = () => {
+      const outer = el.getBoundingClientRect();
+      const cx = el.clientWidth / 2;
+      const points: Record<string, ConnectorPoint[]> = {};
+      const add = (key: string, p: ConnectorPoint) => (points[key] ??= []).push(p);
+      el.querySelectorAll<HTMLElement>("[data-marker]").forEach(m => {
+        const r = m.getBoundingClientRect();
+        add(`g:${m.dataset.marker}`, { x: r.left - outer.left + r.width / 2, y: r.top - outer.top + r.height / 2 });
+      });
+      // cards de nota: a borda voltada para a linha central
+      el.querySelectorAll<HTMLElement>("[data-note]").forEach(c => {
+        const r = c.getBoundingClientRect();
+        const left = r.left - outer.left, right = r.right - outer.left;
+        add(`n:${c.dataset.note}`, { x: right <= cx ? right : left, y: r.top - outer.top + Math.min(r.height / 2, 18) });
+      });
+      setBox({ width: el.clientWidth, points });
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [links, containerRef]);
+
+  if(!links.length || !box.width) return null;
+  const cx = box.width / 2;
+  const titleOf = (id: string) => notes.find(n => n.id === id)?.title ?? "";
+  // onde a nota aparece: os cards abertos; sem nenhum, os marcadores dos seus grupos
+  const pointsOf = (id: string) => box.points[`n:${id}`] ?? (groupsOf.get(id) ?? []).flatMap(k => box.points[`g:${k}`] ?? []);
+  const loops = new Map<ConnectorPoint, number>(); // laços já desenhados em cada marcador
+  return (
+    <svg className="absolute inset-0 pointer-events-none z-20" width={box.width} height="100%" style={{ overflow: "visible" }}>
+      <defs>
+        {RELATION_TYPES.map(t => (
+          <marker key={t} id={`relation-arrow-${t}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={RELATION_INFO[t].color} />
+          </marker>
+        ))}
+      </defs>
+      {links.map((l, i) => {
+        // o par de pontas mais próximo (notas com período aparecem em vários grupos)
+        let best: [ConnectorPoint, ConnectorPoint] | undefined;
+        for(const a of pointsOf(l.from)) for(const b of pointsOf(l.to)){
+          if(!best || Math.abs(a.y - b.y) < Math.abs(best[0].y - best[1].y)) best = [a, b];
+        }
+        if(!best) return null;
+        const [a, b] = best;
+        const info = RELATION_INFO[l.type];
+        let d: string;
+        if(a === b){
+          // mesmo grupo fechado: laço ao lado do marcador
+          const k = loops.get(a) ?? 0;
+          loops.set(a, k + 1);
+          const reach = 36 + 14 * k;
+          d = `M ${a.x} ${a.y - 6} C ${a.x + reach} ${a.y - 34}, ${a.x + reach} ${a.y + 34}, ${a.x} ${a.y + 6}`;
+        } else {
+          // dos cards, a curva sai na direção da linha central; nos marcadores, alterna de lado
+          const side = a.x < cx - 1 ? 1 : a.x > cx + 1 ? -1 : (i % 2 ? -1 : 1);
+          const bend = Math.min(160, 30 + Math.abs(b.y - a.y) / 4) * side;
+          d = `M ${a.x} ${a.y} C ${a.x + bend} ${a.y}, ${b.x + bend} ${b.y}, ${b.x} ${b.y}`;
+        }
+        return (
+          <path
+            key={`${l.type}:${l.from}:${l.to}`}
+            d={d}
+            fill="none"
+            stroke={info.color}
+            strokeWidth={2}
+            strokeDasharray={l.type === "CONTRADICTS" ? "6 4" : undefined}
+            opacity={0.7}
+            markerEnd={l.type === "CONTEMPORARY" ? undefined : `url(#relation-arrow-${l.type})`}
+            style={{ pointerEvents: "stroke" }}
+          >
+            <title>{`${titleOf(l.from)} — ${info.label} — ${titleOf(l.to)}`}</title>
+          </path>
+        );
+      })}
+    </svg>
+  );
+}
+
+// ---------- Grafo de relações ----------
+const GRAPH_WIDTH = 1000;  // largura mínima do eixo do tempo
+const GRAPH_MIN_GAP = 36;  // distância mínima entre duas notas no eixo
+const GRAPH_LABEL = 110;   // espaço de um título abaixo ou acima da nota
+const GRAPH_HEIGHT = 560;
+const GRAPH_AXIS = 40; // faixa de baixo, com as datas
+
+/**
+ * As notas visíveis (mesma pesquisa e filtros da timeline) como nós e as
+ * relações como arestas. O eixo x é o tempo (o começo de cada nota, ver
+ * `timeAxis`); a altura sai de `layoutGraph`. Clicar abre os detalhes da nota.
+ */
+function RelationGraph(){
+  const { calendar, displayEpoch, zoom } = useTL();
+  const filtered = useFilteredNotes();
+  const chrono = useChronology();
+  const [showIsolated, setShowIsolated] = useState(false);
+  const [hover, setHover] = useState<string>();
+  const [viewing, setViewing] = useState<Note|null>(null);
+
+  const graph = useMemo(()=>{
+    const visible = new Set(filtered.map(n => n.id));
+    const edges = relationPairs(filtered).filter(e => visible.has(e.to) && e.from !== e.to);
+    const linked = new Set(edges.flatMap(e => [e.from, e.to]));
+    const shown = filtered.filter(n => showIsolated || linked.has(n.id));
+    const axis = timeAxis(shown.map(n => chrono.spanOf(n)?.start), { width: Math.max(GRAPH_WIDTH, shown.length * GRAPH_MIN_GAP * 1.5), minGap: GRAPH_MIN_GAP });
+    // título acima ou abaixo da nota, onde não encosta no da vizinha; sem espaço, só na dica
+    const lastLabel = { above: -Infinity, below: -Infinity };
+    const nodes = shown.map((n, i) => {
+      const x = axis.xs[i];
+      const side = (["above", "below"] as const).find(k => x - lastLabel[k] >= GRAPH_LABEL);
+      if(side) lastLabel[side] = x;
+      return { note: n, x, label: side };
+    });
+    const ys = layoutGraph(nodes.map(n => ({ id: n.note.id, x: n.x })), edges, { height: GRAPH_HEIGHT - GRAPH_AXIS });
+    const pos = new Map(nodes.map(n => [n.note.id, { x: n.x, y: ys.get(n.note.id)! }]));
+    // marcas do eixo: no começo de cada período do zoom atual em que há notas (sem encavalar os textos)
+    const ticks: { x: number, label: string }[] = [];
+    shown.forEach(n => {
+      const label = formatAtlasDate(periodDate(n.date, zoom), calendar, zoom, displayEpoch);
+      const start = chrono.periodOf(n.date, zoom)?.start;
+      if(!label || start == null || ticks.some(t => t.label === label)) return;
+      const x = axis.toX(start), prev = ticks[ticks.length - 1];
+      if(!prev || x - prev.x >= GRAPH_LABEL) ticks.push({ x, label });
+    });
+    return { nodes, edges, pos, ticks, width: axis.width };
+  }, [filtered, showIsolated, zoom, calendar, displayEpoch, chrono]);
+
+  const near = (id: string) => !hover || id === hover || graph.edges.some(e => (e.from === hover && e.to === id) || (e.to === hover && e.from === id));
+
+  return (
+    <Card>
+      <CardHeader className="py-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap items-center gap-3 text-xs">
+            {RELATION_TYPES.map(t => (
+              <span key={t} className="flex items-center gap-1">
+                <span className="inline-block w-5 h-0.5" style={{ background: RELATION_INFO[t].color }} />
+                {RELATION_INFO[t].label}
+              </span>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={showIsolated} onChange={e=>setShowIsolated(e.target.checked)} />
+            Mostrar notas sem relações
+          </label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!graph.nodes.length ? (
+          <div className="text-sm text-muted-foreground py-8 text-center">
+            Nenhuma relação entre as notas visíveis. Crie relações no diálogo de edição de uma nota.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <svg width={Math.max(graph.width, 300)} height={GRAPH_HEIGHT} className="block">
+              <defs>
+                {RELATION_TYPES.map(t => (
+                  <marker key={t} id={`graph-arrow-${t}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill={RELATION_INFO[t].color} />
+                  </marker>
+                ))}
+              </defs>
+
+              {/* eixo do tempo */}
+              <line x1={0} x2={graph.width} y1={GRAPH_HEIGHT - GRAPH_AXIS} y2={GRAPH_HEIGHT - GRAPH_AXIS} stroke="#cbd5e1" />
+              {graph.ticks.map(t => (
+                <g key={`${t.x}:${t.label}`}>
+                  <line x1={t.x} x2={t.x} y1={GRAPH_HEIGHT - GRAPH_AXIS} y2={GRAPH_HEIGHT - GRAPH_AXIS + 6} stroke="#94a3b8" />
+                  <text x={t.x + 3} y={GRAPH_HEIGHT - GRAPH_AXIS + 18} fontSize={11} fill="#64748b">{t.label}</text>
+                </g>
+              ))}
+
+              {graph.edges.map(e => {
+                const a = graph.pos.get(e.from), b = graph.pos.get(e.to);
+                if(!a || !b) return null;
+                const info = RELATION_INFO[e.type];
+                const lit = !hover || e.from === hover || e.to === hover;
+                // curva para cima, mais alta quanto mais longe no tempo
+                const mx = (a.x + b.x) / 2, my = Math.min(a.y, b.y) - Math.min(120, Math.abs(b.x - a.x) / 4);
+                return (
+                  <path
+                    key={`${e.type}:${e.from}:${e.to}`}
+                    d={`M ${a.x} ${a.y} Q ${mx} ${my} ${b.x} ${b.y}`}
+                    fill="none"
+                    stroke={info.color}
+                    strokeWidth={lit && hover ? 3 : 2}
+                    strokeDasharray={e.type === "CONTRADICTS" ? "6 4" : undefined}
+                    opacity={lit ? 0.85 : 0.15}
+                    markerEnd={e.type === "CONTEMPORARY" ? undefined : `url(#graph-arrow-${e.type})`}
+                  />
+                );
+              })}
+
+              {graph.nodes.map(({ note, label }) => {
+                const p = graph.pos.get(note.id)!;
+                const r = 6 + Math.min(note.weight || 1, 5) * 2;
+                return (
+                  <g
+                    key={note.id}
+                    className="cursor-pointer"
+                    opacity={near(note.id) ? 1 : 0.25}
+                    onMouseEnter={()=>setHover(note.id)}
+                    onMouseLeave={()=>setHover(undefined)}
+                    onClick={()=>setViewing(note)}
+                  >
+                    <circle cx={p.x} cy={p.y} r={r} fill={levelStyles[note.level].color} stroke="#fff" strokeWidth={2} />
+                    {label && (
+                      <text x={p.x} y={label === "below" ? p.y + r + 13 : p.y - r - 6} textAnchor="middle" fontSize={11} fill="#334155">
+                        {note.title.length > 18 ? note.title.slice(0, 17) + "…" : note.title}
+                      </text>
+                    )}
+                    <title>{`${note.title} — ${formatNoteDate(note, calendar, note.level, displayEpoch)}`}</title>
+                  </g>
+                );
+              })}
+            </svg>
+          </div>
+        )}
+      </CardContent>
+      {viewing && <NoteDetailsDialog note={viewing} onClose={()=>setViewing(null)} />}
+    </Card>
+  );
+}
+
+// ---------- Períodos (notas com data final) ----------
+type SpanBar = { note: Note; lane: number; first: boolean; last: boolean };
+
+// Distribui os períodos em trilhas paralelas e devolve, para cada grupo, as barras que passam por ele
+function layoutSpanBars(groups: PeriodGroup[]): SpanBar[][] {
+  const range = new Map<Note, { from: number; to: number }>();
+  groups.forEach((g, i) => g.items.forEach(n => {
+    if (!n.endDate) return;
+    const r = range.get(n);
+    range.set(n, r ? { from: r.from, to: i } : { from: i, to: i });
+  }));
+
+  const laneEnds: number[] = [];
+  const lanes = new Map<Note, number>();
+  for (const [n, r] of range) {
+    let lane = laneEnds.findIndex(end => end < r.from);
+    if (lane < 0) lane = laneEnds.length;
+    laneEnds[lane] = r.to;
+    lanes.set(n, lane);
+  }
+
+  return groups.map((_, i) =>
+    Array.from(range.entries())
+      .filter(([, r]) => r.from <= i && i <= r.to)
+      .map(([note, r]) => ({ note, lane: lanes.get(note)!, first: r.from === i, last: r.to === i }))
+  );
+}
+
+function SpanBars({ bars, orientation }:{ bars: SpanBar[], orientation: "VERTICAL" | "HORIZONTAL" }){
+  const { calendar, displayEpoch } = useTL();
+  return (
+    <>
+      {bars.map(b => {
+        const offset = `calc(50% + ${10 + b.lane * 7}px)`;
+        const single = b.first && b.last;
+        const style: React.CSSProperties = orientation === "VERTICAL"
+          ? { left: offset, width: 4, top: single ? "calc(50% - 8px)" : b.first ? "50%" : 0, bottom: single ? "calc(50% - 8px)" : b.last ? "50%" : 0 }
+          : { top: offset, height: 4, left: b.first ? "50%" : -12, right: b.last ? "50%" : -12 };
+        return (
+          <div
+            key={b.note.id}
+            className="absolute z-10 rounded-full opacity-80"
+            style={{ ...style, background: levelStyles[b.note.level].color }}
+            title={`${b.note.title}: ${formatNoteDate(b.note, calendar, b.note.level, displayEpoch)}`}
+          />
+        );
+      })}
+    </>
+  );
+}
+
 // ---------- Componentes novos: agrupadores hierárquicos ----------
-function NestedGroups({ rootLevel, items }:{ rootLevel: Level, items: Note[] }){
+function NestedGroups({ rootLevel, items, period }:{ rootLevel: Level, items: Note[], period?: Span }){
   const { calendar } = useTL();
+  const chrono = useChronology();
   const [openMap, setOpenMap] = useState<Record<string, boolean>>({});
   const toggle = (k:string)=> setOpenMap(s=>({ ...s, [k]: !s[k] }));
 
@@ -953,34 +3236,34 @@ function NestedGroups({ rootLevel, items }:{ rootLevel: Level, items: Note[] }){
   };
   const chain = chainMap[rootLevel];
 
-  function groupByLevel(list: Note[], lvl: Level){
-    const map = new Map<string, Note[]>();
-    for(const n of list){
-      let key: string;
-      if(lvl === "MILLENNIUM") key = String(n.date.millennium ?? "?");
-      else if(lvl === "CENTURY") key = String(n.date.century ?? "?");
-      else if(lvl === "DECADE") key = String(n.date.decade ?? "?");
-      else key = String(n.date.year ?? "?");
-      if(!map.has(key)) map.set(key, []);
-      map.get(key)!.push(n);
+  // nota em foco: abre o caminho de cartões até ela
+  const focus = useTL(s => s.focus);
+  useEffect(()=>{
+    if(!focus || !chain.length) return;
+    const opened: Record<string, boolean> = {};
+    let subset = items, bounds = period;
+    for(const lvl of chain){
+      const g = chrono.group(subset, lvl, bounds).find(g => g.items.some(n => n.id === focus.id));
+      if(!g) break;
+      opened[`${lvl}:${g.key}`] = true;
+      subset = g.items;
+      bounds = g.period;
     }
-    const entries = Array.from(map.entries()).sort((a,b)=> compareDates(a[1][0], b[1][0]));
-    return entries.map(([k, arr])=> ({ key: k, notes: arr }));
-  }
+    setOpenMap(s => ({ ...s, ...opened }));
+  }, [focus]);
 
-  function renderLevel(levels: Level[], subset: Note[]): JSX.Element {
+  function renderLevel(levels: Level[], subset: Note[], bounds?: Span): JSX.Element {
     if (levels.length === 0) {
       return <AggregatedNotes items={subset}/>;
     }
 
     const lvl = levels[0];
-    const groups = groupByLevel(subset, lvl);
+    const groups = chrono.group(subset, lvl, bounds);
     return (
       <div className="space-y-2">
         {groups.map(g=>{
-          const sample = g.notes[0];
-          const label = formatAtlasDate(sample.date, calendar, lvl);
-          const k = `${lvl}:${g.key}:${sample.date.century ?? "?"}:${sample.date.millennium ?? "?"}:${sample.date.era ?? "?"}`;
+          const label = formatAtlasDate(g.date, calendar, lvl);
+          const k = `${lvl}:${g.key}`;
           const opened = openMap[k] ?? false;
 
           // Definindo cor do nível
@@ -999,9 +3282,9 @@ function NestedGroups({ rootLevel, items }:{ rootLevel: Level, items: Note[] }){
               {opened && (
                 <CardContent>
                   {levels.length > 1 ? (
-                    renderLevel(levels.slice(1), g.notes)
+                    renderLevel(levels.slice(1), g.items, g.period)
                   ) : (
-                    <AggregatedNotes items={g.notes} />
+                    <AggregatedNotes items={g.items} />
                   )}
                 </CardContent>
               )}
@@ -1013,22 +3296,25 @@ function NestedGroups({ rootLevel, items }:{ rootLevel: Level, items: Note[] }){
   }
 
   if(!chain || !chain.length) return <AggregatedNotes items={items}/>;
-  return renderLevel(chain, items);
+  return renderLevel(chain, items, period);
 }
 
 function GroupRow2(
-  { index, items, level, layout }:
-  { index:number, items: Note[], level: Level, layout: LayoutMode }
+  { index, group, level, layout, bars }:
+  { index:number, group: PeriodGroup, level: Level, layout: LayoutMode, bars: SpanBar[] }
 ){
   const { calendar } = useTL();
+  const items = group.items;
   const totalWeight = items.reduce((s, n) => s + (n.weight||1), 0);
   const size = Math.min(42, 8 + totalWeight * 4);
   const [open, setOpen] = useState(false);
+  useOpenOnFocus(items, () => setOpen(true));
+  // marcador difuso quando todas as notas do período têm data incerta
+  const fuzzy = items.length > 0 && items.every(n => isUncertain(n.date));
 
   // Cabeçalho: no zoom DECADE, mostramos o SÉCULO; nos demais, o próprio zoom
   const headerLevel: Level = (level === "DECADE") ? "CENTURY" : level;
-  const sample = items[0];
-  const label = formatAtlasDate(sample.date, calendar, headerLevel);
+  const label = formatAtlasDate(group.date, calendar, headerLevel);
 
   // Decide lado de acordo com o layout
   const align =
@@ -1039,6 +3325,8 @@ function GroupRow2(
 
   return (
     <div className="relative flex items-center py-3">
+      <SpanBars bars={bars} orientation="VERTICAL" />
+
       {/* Caixa do evento */}
       {alignRight ? <div className="w-1/2"/> : (
         <div className="w-1/2 pr-6 flex justify-end">
@@ -1052,10 +3340,11 @@ function GroupRow2(
                   </Button>
                 </div>
               </div>
+              <RelativeLine date={group.date} className="text-center" />
             </CardHeader>
             {open && (
               <CardContent>
-                <NestedGroups rootLevel={level} items={items} />
+                <NestedGroups rootLevel={level} items={items} period={group.period} />
               </CardContent>
             )}
           </Card>
@@ -1065,8 +3354,14 @@ function GroupRow2(
       {/* Linha central */}
       <div className="relative w-0">
         <div className="absolute left-1/2 -translate-x-1/2">
-          <div className="flex items-center justify-center" style={{ width: size, height: size }}>
-            <div className="drop-shadow" style={{ filter: "brightness(1.05)" }}>
+          <div data-marker={group.key} className="relative flex items-center justify-center" style={{ width: size, height: size }} title={fuzzy ? "Datas aproximadas" : undefined}>
+            {fuzzy && (
+              <div
+                className="absolute rounded-full border-2 border-dashed"
+                style={{ inset: -6, borderColor: levelStyles[level].color, opacity: 0.6, filter: "blur(0.5px)" }}
+              />
+            )}
+            <div className="drop-shadow" style={{ filter: fuzzy ? "blur(1.5px)" : "brightness(1.05)", opacity: fuzzy ? 0.75 : 1 }}>
               {levelStyles[level].marker({ size })}
             </div>
           </div>
@@ -1085,10 +3380,11 @@ function GroupRow2(
                   </Button>
                 </div>
               </div>
+              <RelativeLine date={group.date} className="text-center" />
             </CardHeader>
             {open && (
               <CardContent>
-                <NestedGroups rootLevel={level} items={items} />
+                <NestedGroups rootLevel={level} items={items} period={group.period} />
               </CardContent>
             )}
           </Card>
@@ -1100,10 +3396,12 @@ function GroupRow2(
 
 function HorizontalTimeline({
   groups,
-  level
+  level,
+  bars
 }:{
-  groups: { key:string; items: Note[] }[];
+  groups: PeriodGroup[];
   level: Level;
+  bars: SpanBar[][];
 }){
   const grad = "linear-gradient(to right, #22c55e, #fb923c, #facc15, #a855f7, #3b82f6)";
   return (
@@ -1113,24 +3411,26 @@ function HorizontalTimeline({
 
       <div className="flex gap-6 overflow-x-auto pb-8">
         {groups.map((g, i) => (
-          <HorizontalItem key={g.key} index={i} items={g.items} level={level} />
+          <HorizontalItem key={g.key} index={i} group={g} level={level} bars={bars[i]} />
         ))}
       </div>
     </div>
   );
 }
 
-function HorizontalItem({ index, items, level }:{
-  index:number; items:Note[]; level:Level;
+function HorizontalItem({ index, group, level, bars }:{
+  index:number; group:PeriodGroup; level:Level; bars:SpanBar[];
 }){
   const { calendar } = useTL();
   const [open, setOpen] = useState(false);
+  useOpenOnFocus(group.items, () => setOpen(true));
   const headerLevel: Level = (level === "DECADE") ? "CENTURY" : level;
-  const label = formatAtlasDate(items[0].date, calendar, headerLevel);
+  const label = formatAtlasDate(group.date, calendar, headerLevel);
   const up = index % 2 === 0; // alterna acima/abaixo da linha
 
   return (
     <div className={`relative min-w-[320px] ${up ? "pb-12" : "pt-12"}`}>
+      <SpanBars bars={bars} orientation="HORIZONTAL" />
       <div className={`absolute left-1/2 -translate-x-1/2 ${up ? "bottom-0" : "top-0"}`}>
         {levelStyles[level].marker({ size: 22 })}
       </div>
@@ -1147,7 +3447,7 @@ function HorizontalItem({ index, items, level }:{
         </CardHeader>
         {open && (
           <CardContent>
-            <NestedGroups rootLevel={level} items={items}/>
+            <NestedGroups rootLevel={level} items={group.items} period={group.period}/>
           </CardContent>
         )}
       </Card>
@@ -1156,50 +3456,42 @@ function HorizontalItem({ index, items, level }:{
 }
 
 function AggregatedNotes({ items }:{ items: Note[] }){
-  const { calendar, togglePin, removeNote, notes } = useTL();
+  const { calendar, togglePin, removeNote, displayEpoch, showCycles, setEditingId, tagStyles } = useTL();
+  const chrono = useChronology();
   const [expandedYears, setExpandedYears] = useState<Record<string, boolean>>({});
-  const [editingNote, setEditingNote] = useState<Note|null>(null);
   const [viewingNote, setViewingNote] = useState<Note|null>(null);
-  const [editTags, setEditTags] = useState<string>("");
-
-  function saveEdit(){
-    if(editingNote){
-      const normalizedDate: AtlasDate = {
-        era: editingNote.date.era ?? "",
-        millennium: editingNote.date.millennium ?? undefined,
-        century: editingNote.date.century ?? undefined,
-        decade: editingNote.date.decade ?? undefined,
-        year: editingNote.date.year ?? undefined,
-        month: editingNote.date.month ?? undefined,
-        day: editingNote.date.day ?? undefined,
-        relativeEra: editingNote.date.relativeEra ?? "DU"
-      };
-
-      const updated = { ...editingNote, date: normalizedDate, tags: editTags.split(",").map(t=>t.trim()).filter(Boolean) };
-      const updatedNotes = notes.map(n => n.id === updated.id ? updated : n);
-      localStorage.setItem("atlas_timeline_notes", JSON.stringify(updatedNotes));
-      window.dispatchEvent(new Event("storage"));
-      setEditingNote(null);
-      setEditTags("");
-
-      window.location.reload();  
-    }
-  }
 
   const byYear = useMemo(() => {
     // Se já estamos no zoom YEAR, retorna as notas diretamente
+    const ordered = [...items].sort(chrono.compare);
     if (items.length && items[0].level === "YEAR") {
-      return [["direct", items]] as [string, Note[]][];
+      return [["direct", ordered]] as [string, Note[]][];
     }
 
     const m = new Map<string, Note[]>();
-    for (const n of items) {
-      const k = `${n.date.relativeEra ?? "DU"}::${n.date.year ?? "?"}`;
+    for (const n of ordered) {
+      const d = toEpoch(n.date, displayEpoch, calendar);
+      const k = `${d.epoch}::${d.relativeEra ?? "DU"}::${d.year ?? "?"}`;
       if (!m.has(k)) m.set(k, []);
       m.get(k)!.push(n);
     }
-    return Array.from(m.entries()).sort((a, b) => compareDates(a[1][0], b[1][0]));
-  }, [items]);
+    return Array.from(m.entries());
+  }, [items, chrono, calendar, displayEpoch]);
+
+  // nota em foco: abre o ano dela e rola até o cartão (depois que ele aparece)
+  const focus = useTL(s => s.focus);
+  const scrolled = useRef(0);
+  useEffect(()=>{
+    const year = focus && byYear.find(([, ns]) => ns.some(n => n.id === focus.id))?.[0];
+    if(year) setExpandedYears(s => ({ ...s, [year]: true }));
+  }, [focus]);
+  useEffect(()=>{
+    if(!focus || scrolled.current === focus.at || !items.some(n => n.id === focus.id)) return;
+    const el = document.getElementById(`note-${focus.id}`);
+    if(!el) return;
+    scrolled.current = focus.at;
+    el.scrollIntoView({ behavior: "smooth", block: "center" });
+  });
 
   return (
     <div className="space-y-2">
@@ -1208,99 +3500,28 @@ function AggregatedNotes({ items }:{ items: Note[] }){
           {year === "direct" ? (
             // Renderização direta no nível de YEAR
             <div className="mt-2 grid gap-2">
-              {notes.sort((a,b)=> (a.weight||1)-(b.weight||1)).map(n => (
-                <div key={n.id} className="rounded-lg border p-2">
-                  {editingNote?.id === n.id ? (
-                    <div className="space-y-2">
-                      <Input value={editingNote.title} onChange={e=>setEditingNote({...editingNote, title:e.target.value})} />
-                      <Textarea value={editingNote.description} onChange={e=>setEditingNote({...editingNote, description:e.target.value})} />
-
-                      {/* Granularidade */}
-                      <div>
-                        <label className="text-xs text-muted-foreground">Granularidade</label>
-                        <select value={editingNote.level} onChange={e=>setEditingNote({...editingNote, level:e.target.value as Level})} className="w-full border rounded p-2">
-                          {LEVELS.map(l=> <option key={l} value={l}>{l}</option>)}
-                        </select>
-                      </div>
-
-                      {/* Peso */}
-                      <div>
-                        <label className="text-xs text-muted-foreground">Peso</label>
-                        <Input type="number" value={editingNote.weight||1} onChange={e=>setEditingNote({...editingNote, weight:Number(e.target.value)||1})} />
-                      </div>
-
-                      {/* Datas */}
-                      <DateEditor date={editingNote.date} onChange={(d)=>setEditingNote({...editingNote, date:d})} />
-
-                      {/* Tags */}
-                      <div>
-                        <label className="text-xs text-muted-foreground">Tags (separadas por vírgula)</label>
-                        <Input
-                          value={editTags}
-                          onChange={e => setEditTags(e.target.value)}
-                          placeholder="Ex: Humanos, Guerra, Religião"
-                        />
-                      </div>
-
-                      {/* Imagens */}
-                      <div>
-                        <label className="text-xs text-muted-foreground">Imagens</label>
-                        <Input type="file" accept="image/*" multiple onChange={(e)=>{
-                          const files = e.target.files; if(!files) return;
-                          Array.from(files).forEach(file=>{
-                            const reader = new FileReader();
-                            reader.onload = () => {
-                              setEditingNote(prev => prev ? {...prev, images:[...(prev.images||[]), reader.result as string]} : prev);
-                            };
-                            reader.readAsDataURL(file);
-                          });
-                        }} />
-                        {!!(editingNote.images && editingNote.images.length) && (
-                          <div className="mt-2 grid grid-cols-4 gap-2">
-                            {editingNote.images.map((src,i)=> (
-                              <ImagePreview key={i} src={src} />
-                            ))}
-                          </div>
-                        )}
-                      </div>
-
-                      <div className="flex gap-2 justify-end">
-                        <Button variant="outline" onClick={()=>setEditingNote(null)}>Cancelar</Button>
-                        <Button onClick={saveEdit}>Salvar</Button>
-                      </div>
+              {notes.sort((a,b)=> chrono.compare(a,b) || (a.weight||1)-(b.weight||1)).map(n => (
+                <div key={n.id} id={`note-${n.id}`} data-note={n.id} className={`rounded-lg border p-2 ${focus?.id === n.id ? "ring-2 ring-yellow-400" : ""}`} style={tagAccent(n.tags, tagStyles)}>
+                  <div className="flex items-center justify-between">
+                    <div className="font-semibold">{n.title}</div>
+                    <div className="flex items-center gap-1">
+                      <Button size="icon" variant="ghost" onClick={()=>togglePin(n.id)} title={n.pinned?"Desafixar":"Fixar"}>
+                        {n.pinned ? <PinOff size={16}/> : <Pin size={16}/>} 
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={()=>setEditingId(n.id)} title="Editar"><Save size={16}/></Button>
+                      <Button size="icon" variant="ghost" onClick={()=>removeNote(n.id)} title="Mover para a lixeira"><X size={16}/></Button>
+                      <Button size="icon" variant="ghost" onClick={()=>setViewingNote(n)} title="Ver detalhes"><Eye size={16}/></Button>
+                    </div>
+                  </div>
+                  {n.description && <div className="text-sm text-muted-foreground mt-1 whitespace-pre-wrap">{n.description}</div>}
+                  {!!(n.images && n.images.length) && (
+                    <div className="mt-2 grid grid-cols-4 gap-2">
+                      {n.images!.map((src,i)=> <ImagePreview key={i} src={src} />)}
                     </div>
-                  ) : (
-                    <>
-                      <div className="flex items-center justify-between">
-                        <div className="font-semibold">{n.title}</div>
-                        <div className="flex items-center gap-1">
-                          <Button size="icon" variant="ghost" onClick={()=>togglePin(n.id)} title={n.pinned?"Desafixar":"Fixar"}>
-                            {n.pinned ? <PinOff size={16}/> : <Pin size={16}/>} 
-                          </Button>
-                          <Button
-                            size="icon"
-                            variant="ghost"
-                            onClick={()=>{
-                              setEditingNote(n);
-                              setEditTags((n.tags || []).join(", "));
-                            }}
-                            title="Editar"
-                          >
-                            <Save size={16}/>
-                          </Button>
-                          <Button size="icon" variant="ghost" onClick={()=>removeNote(n.id)} title="Excluir"><X size={16}/></Button>
-                          <Button size="icon" variant="ghost" onClick={()=>setViewingNote(n)} title="Ver detalhes"><Eye size={16}/></Button>
-                        </div>
-                      </div>
-                      {n.description && <div className="text-sm text-muted-foreground mt-1 whitespace-pre-wrap">{n.description}</div>}
-                      {!!(n.images && n.images.length) && (
-                        <div className="mt-2 grid grid-cols-4 gap-2">
-                          {n.images!.map((src,i)=> <ImagePreview key={i} src={src} />)}
-                        </div>
-                      )}
-                      <div className="text-xs mt-2 text-muted-foreground">{formatAtlasDate(n.date, calendar, n.level)}</div>
-                    </>
                   )}
+                  <div className="text-xs mt-2 text-muted-foreground">{formatNoteDate(n, calendar, n.level, displayEpoch)}</div>
+                  {showCycles && <CycleLine date={n.date} calendar={calendar} />}
+                  <RelativeLine date={n.date} noteId={n.id} />
                 </div>
               ))}
             </div>
@@ -1309,7 +3530,7 @@ function AggregatedNotes({ items }:{ items: Note[] }){
             <>
               <div className="flex items-center justify-center relative cursor-pointer" onClick={()=>setExpandedYears(s=>({ ...s, [year]: !s[year] }))}>
                 <div className="font-medium text-center w-full">
-                  {formatAtlasDate(notes[0].date, calendar, "YEAR")}
+                  {formatAtlasDate(periodDate(notes[0].date, "YEAR"), calendar, "YEAR", displayEpoch)}
                 </div>
                 <div className="absolute right-0">
                   <Button size="sm" variant="ghost">{expandedYears[year] ? <Minimize2 size={14}/> : <Maximize2 size={14}/>}</Button>
@@ -1317,16 +3538,16 @@ function AggregatedNotes({ items }:{ items: Note[] }){
               </div>
               {expandedYears[year] && (
                 <div className="mt-2 grid gap-2">
-                  {notes.sort((a,b)=> (a.weight||1)-(b.weight||1)).map(n => (
-                    <div key={n.id} className="rounded-lg border p-2">
+                  {notes.sort((a,b)=> chrono.compare(a,b) || (a.weight||1)-(b.weight||1)).map(n => (
+                    <div key={n.id} id={`note-${n.id}`} data-note={n.id} className={`rounded-lg border p-2 ${focus?.id === n.id ? "ring-2 ring-yellow-400" : ""}`} style={tagAccent(n.tags, tagStyles)}>
                       <div className="flex items-center justify-between">
                         <div className="font-semibold">{n.title}</div>
                         <div className="flex items-center gap-1">
                           <Button size="icon" variant="ghost" onClick={()=>togglePin(n.id)} title={n.pinned?"Desafixar":"Fixar"}>
                             {n.pinned ? <PinOff size={16}/> : <Pin size={16}/>} 
                           </Button>
-                          <Button size="icon" variant="ghost" onClick={()=>{ setEditingNote(n); setEditTags((n.tags || []).join(", ")); }} title="Editar"><Save size={16}/></Button>
-                          <Button size="icon" variant="ghost" onClick={()=>removeNote(n.id)} title="Excluir"><X size={16}/></Button>
+                          <Button size="icon" variant="ghost" onClick={()=>setEditingId(n.id)} title="Editar"><Save size={16}/></Button>
+                          <Button size="icon" variant="ghost" onClick={()=>removeNote(n.id)} title="Mover para a lixeira"><X size={16}/></Button>
                           <Button size="icon" variant="ghost" onClick={()=>setViewingNote(n)} title="Ver detalhes"><Eye size={16}/></Button>
                         </div>
                       </div>
@@ -1336,7 +3557,9 @@ function AggregatedNotes({ items }:{ items: Note[] }){
                           {n.images!.map((src,i)=> <ImagePreview key={i} src={src} />)}
                         </div>
                       )}
-                      <div className="text-xs mt-2 text-muted-foreground">{formatAtlasDate(n.date, calendar, n.level)}</div>
+                      <div className="text-xs mt-2 text-muted-foreground">{formatNoteDate(n, calendar, n.level, displayEpoch)}</div>
+                      {showCycles && <CycleLine date={n.date} calendar={calendar} />}
+                      <RelativeLine date={n.date} noteId={n.id} />
                     </div>
                   ))}
                 </div>
@@ -1346,83 +3569,135 @@ function AggregatedNotes({ items }:{ items: Note[] }){
         </div>
       ))}
 
-      {/* Dialog de detalhes */}
-      {viewingNote && (
-        <Dialog open={!!viewingNote} onOpenChange={()=>setViewingNote(null)}>
-          <DialogContent className="max-w-3xl bg-gray-900 text-white rounded-xl shadow-2xl border border-gray-700">
-            <DialogHeader>
-              <DialogTitle className="text-3xl font-extrabold bg-gradient-to-r from-purple-400 via-pink-400 to-blue-400 bg-clip-text text-transparent">
-                {viewingNote.title}
-              </DialogTitle>
-            </DialogHeader>
-            <div className="space-y-6 mt-4">
-              {viewingNote.description && (
-                <div className="text-lg leading-relaxed text-gray-200 bg-gray-800/60 p-4 rounded-lg border border-gray-700 shadow-inner">
-                  {viewingNote.description}
-                </div>
+      {viewingNote && <NoteDetailsDialog note={viewingNote} onClose={()=>setViewingNote(null)} />}
+    </div>
+  );
+}
+
+// Detalhes de uma nota (no calendário de exibição); as relações abrem a outra nota no mesmo diálogo
+function NoteDetailsDialog({ note, onClose }:{ note: Note, onClose: () => void }){
+  const { calendar, calendars, notes, displayEpoch, setEditingId } = useTL();
+  const [viewingNote, setViewingNote] = useState(note);
+  useEffect(()=> setViewingNote(note), [note]);
+  // `note` é uma cópia no calendário de exibição; os outros calendários partem da nota salva
+  const original = (n: Note) => notes.find(x => x.id === n.id) ?? n;
+  const open = (id: string) => {
+    const n = notes.find(x => x.id === id);
+    if(n) setViewingNote(noteInCalendar(n, calendars, calendar));
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl bg-gray-900 text-white rounded-xl shadow-2xl border border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="text-3xl font-extrabold bg-gradient-to-r from-purple-400 via-pink-400 to-blue-400 bg-clip-text text-transparent">
+            {viewingNote.title}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-6 mt-4">
+          {viewingNote.description && (
+            <div className="text-lg leading-relaxed text-gray-200 bg-gray-800/60 p-4 rounded-lg border border-gray-700 shadow-inner">
+              {viewingNote.description}
+            </div>
+          )}
+          {!!(viewingNote.images && viewingNote.images.length) && (
+            <div className="mt-4 grid grid-cols-2 md:grid-cols-3 gap-4">
+              {viewingNote.images.map((src,i)=>(
+                <figure key={i}>
+                  <StoredImage src={src} className="w-full h-40 object-cover rounded-lg shadow-lg border border-gray-600"/>
+                  <ImageCaption src={src} className="mt-1 text-gray-400" />
+                </figure>
+              ))}
+            </div>
+          )}
+          <div className="mt-4">
+            <h3 className="text-sm uppercase tracking-wider text-gray-400 mb-2">Linha do tempo</h3>
+            <div className="flex flex-wrap gap-3 text-sm">
+              {viewingNote.date.era && <span className="px-3 py-1 rounded-full bg-gradient-to-r from-green-400 to-emerald-600 text-white font-semibold shadow-md">{viewingNote.date.era}</span>}
+              {viewingNote.date.millennium!=null && <span className="px-3 py-1 rounded-full bg-gradient-to-r from-orange-400 to-red-500 text-white shadow-md">{viewingNote.date.millennium}º milênio</span>}
+              {viewingNote.date.century!=null && (
+                <span className="px-3 py-1 rounded-full bg-gradient-to-r from-yellow-300 to-yellow-600 text-gray-900 font-semibold shadow-md">
+                  Século {viewingNote.date.century} ({toRoman(viewingNote.date.century)})
+                </span>
               )}
-              {!!(viewingNote.images && viewingNote.images.length) && (
-                <div className="mt-4 grid grid-cols-2 md:grid-cols-3 gap-4">
-                  {viewingNote.images.map((src,i)=>(
-                    <img key={i} src={src} className="w-full h-40 object-cover rounded-lg shadow-lg border border-gray-600"/>
-                  ))}
-                </div>
+              {viewingNote.date.decade!=null && (
+                <span className="px-3 py-1 rounded-full bg-gradient-to-r from-purple-400 to-fuchsia-600 text-white shadow-md">
+                  Década de {viewingNote.date.decade}
+                </span>
               )}
-              <div className="mt-4">
-                <h3 className="text-sm uppercase tracking-wider text-gray-400 mb-2">Linha do tempo</h3>
-                <div className="flex flex-wrap gap-3 text-sm">
-                  {viewingNote.date.era && <span className="px-3 py-1 rounded-full bg-gradient-to-r from-green-400 to-emerald-600 text-white font-semibold shadow-md">{viewingNote.date.era}</span>}
-                  {viewingNote.date.millennium!=null && <span className="px-3 py-1 rounded-full bg-gradient-to-r from-orange-400 to-red-500 text-white shadow-md">{viewingNote.date.millennium}º milênio</span>}
-                  {viewingNote.date.century!=null && (
-                    <span className="px-3 py-1 rounded-full bg-gradient-to-r from-yellow-300 to-yellow-600 text-gray-900 font-semibold shadow-md">
-                      Século {viewingNote.date.century} ({toRoman(viewingNote.date.century)})
-                    </span>
-                  )}
-                  {viewingNote.date.decade!=null && (
-                    <span className="px-3 py-1 rounded-full bg-gradient-to-r from-purple-400 to-fuchsia-600 text-white shadow-md">
-                      Década de {viewingNote.date.decade}
-                    </span>
-                  )}
-                  {viewingNote.date.year!=null && <span className="px-3 py-1 rounded-full bg-gradient-to-r from-blue-400 to-indigo-600 text-white shadow-md">Ano {viewingNote.date.year}</span>}
-                  {(viewingNote.date.month!=null || viewingNote.date.day!=null) && (
-                    <span className="px-3 py-1 rounded-full bg-gradient-to-r from-pink-400 to-rose-600 text-white shadow-md">
-                      {viewingNote.date.day ? `${viewingNote.date.day}` : "Dia ?"} de {calendar.months[viewingNote.date.month!-1]?.name}
-                    </span>
-                  )}
-                </div>
-              </div>
-              <div className="mt-4">
-                <h3 className="text-sm uppercase tracking-wider text-gray-400 mb-2">Tags</h3>
-                <div className="flex flex-wrap gap-3 text-sm">
-                  {viewingNote.tags && viewingNote.tags.length > 0 && (
-                    <div className="flex flex-wrap gap-2 mt-2">
-                      {viewingNote.tags.map((tag, i) => (
-                        <span
-                          key={i}
-                          className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-700"
-                        >
-                          {tag}
-                        </span>
-                      ))}
+              {viewingNote.date.year!=null && <span className="px-3 py-1 rounded-full bg-gradient-to-r from-blue-400 to-indigo-600 text-white shadow-md">Ano {viewingNote.date.year}</span>}
+              {viewingNote.endDate && (
+                <span className="px-3 py-1 rounded-full bg-gradient-to-r from-slate-500 to-slate-700 text-white shadow-md">
+                  Período: {formatNoteDate(viewingNote, calendar, "YEAR", displayEpoch)}
+                </span>
+              )}
+              {(viewingNote.date.month!=null || viewingNote.date.day!=null) && (
+                <span className="px-3 py-1 rounded-full bg-gradient-to-r from-pink-400 to-rose-600 text-white shadow-md">
+                  {viewingNote.date.day ? `${viewingNote.date.day}` : "Dia ?"} de {calendar.months[viewingNote.date.month!-1]?.name}
+                </span>
+              )}
+              {weekdayOf(viewingNote.date, calendar) && (
+                <span className="px-3 py-1 rounded-full bg-gradient-to-r from-teal-400 to-cyan-600 text-white shadow-md">
+                  {weekdayOf(viewingNote.date, calendar)}
+                </span>
+              )}
+              {cyclePhases(viewingNote.date, calendar).map(p => (
+                <span key={p.cycle.id} className="px-3 py-1 rounded-full bg-gradient-to-r from-sky-700 to-indigo-900 text-white shadow-md">
+                  {formatCyclePhase(p)}
+                </span>
+              ))}
+            </div>
+          </div>
+          {calendars.length > 1 && (
+            <div className="mt-4">
+              <h3 className="text-sm uppercase tracking-wider text-gray-400 mb-2">Em cada calendário</h3>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-sm">
+                {calendars.map(c => {
+                  const n = noteInCalendar(original(viewingNote), calendars, c);
+                  return (
+                    <div key={c.id} className="rounded-lg border border-gray-700 bg-gray-800/60 p-3">
+                      <div className="text-xs text-gray-400">{c.name}</div>
+                      <div className="font-semibold">
+                        {formatFullDate(n.date, c)}
+                        {n.endDate && ` – ${formatFullDate(n.endDate, c)}`}
+                      </div>
                     </div>
-                  )}
-                </div>
+                  );
+                })}
               </div>
             </div>
-            <div className="flex justify-end gap-3 mt-8">
-              <Button onClick={()=>setViewingNote(null)} className="bg-gray-700 text-white hover:bg-gray-600">Fechar</Button>
+          )}
+          <div className="mt-4">
+            <h3 className="text-sm uppercase tracking-wider text-gray-400 mb-2">Tags</h3>
+            <div className="flex flex-wrap gap-3 text-sm">
+              {viewingNote.tags && viewingNote.tags.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {viewingNote.tags.map((tag, i) => (
+                    <TagChip key={i} tag={tag} className="py-1" />
+                  ))}
+                </div>
+              )}
             </div>
-          </DialogContent>
-        </Dialog>
-      )}
-    </div>
+          </div>
+          <RelationLinks noteId={viewingNote.id} onOpen={open} />
+        </div>
+        <div className="flex justify-end gap-3 mt-8">
+          <Button onClick={()=>{ setEditingId(viewingNote.id); onClose(); }} className="bg-gray-700 text-white hover:bg-gray-600">Editar</Button>
+          <Button onClick={onClose} className="bg-gray-700 text-white hover:bg-gray-600">Fechar</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
   );
 }
 
 function PinnedPanel(){
-  const { notes, calendar, togglePin } = useTL();
-  const pinned = notes.filter(n=>n.pinned);
+  const { calendar, togglePin, displayEpoch, setEditingId } = useTL();
+  const notes = useViewNotes();
+  const chrono = useChronology();
+  const pinned = notes.filter(n=>n.pinned).sort(chrono.compare);
   if(!pinned.length) return null;
+  // intervalo entre cada nota fixada e a seguinte, em ordem cronológica
+  const intervals = pinned.slice(1).map((n, i) => ({ from: pinned[i], to: n, diff: dateDifference(pinned[i].date, n.date, calendar) }));
   return (
     <div className="col-span-12">
       <Card>
@@ -1433,29 +3708,84 @@ function PinnedPanel(){
               <div key={n.id} className="border rounded-xl p-3">
                 <div className="flex items-center justify-between">
                   <div className="font-semibold">{n.title}</div>
-                  <Button size="icon" variant="ghost" onClick={()=>togglePin(n.id)} title="Desafixar"><PinOff size={16}/></Button>
+                  <div className="flex items-center gap-1">
+                    <Button size="icon" variant="ghost" onClick={()=>setEditingId(n.id)} title="Editar"><Save size={16}/></Button>
+                    <Button size="icon" variant="ghost" onClick={()=>togglePin(n.id)} title="Desafixar"><PinOff size={16}/></Button>
+                  </div>
                 </div>
                 {n.description && <div className="text-sm text-muted-foreground mt-1 whitespace-pre-wrap">{n.description}</div>}
                 {!!(n.images && n.images.length) && (
                   <div className="mt-2 grid grid-cols-4 gap-2">
-                    {n.images!.map((src,i)=> <img key={i} src={src} className="w-full h-24 object-cover rounded"/>) }
+                    {n.images!.map((src,i)=> <StoredImage key={i} src={src} variant="thumb" className="w-full h-24 object-cover rounded"/>) }
                   </div>
                 )}
-                <div className="text-xs mt-2 text-muted-foreground">{formatAtlasDate(n.date, calendar, n.level)}</div>
+                <div className="text-xs mt-2 text-muted-foreground">{formatNoteDate(n, calendar, n.level, displayEpoch)}</div>
               </div>
             ))}
           </div>
+          {intervals.length > 0 && (
+            <div className="mt-4">
+              <div className="text-sm font-semibold mb-1">Intervalos</div>
+              <div className="grid gap-1 text-sm">
+                {intervals.map(({ from, to, diff }) => (
+                  <div key={`${from.id}:${to.id}`} className="flex flex-wrap gap-x-2">
+                    <span className="font-medium">{from.title}</span>
+                    <span className="text-muted-foreground">→</span>
+                    <span className="font-medium">{to.title}</span>
+                    <span className="text-muted-foreground">
+                      {!diff ? "(sem data)" : diff.sign === 0 ? "mesma data" : formatDuration(diff.duration)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
   );
 }
 
+// Falhas de leitura/gravação ficam visíveis até serem dispensadas
+function StorageErrorBanner(){
+  const { storageError, dismissStorageError } = useTL();
+  if(!storageError) return null;
+  return (
+    <div className="sticky top-0 z-[60] bg-red-600 text-white text-sm">
+      <div className="max-w-6xl mx-auto flex items-center justify-between gap-2 px-3 py-2">
+        <span>{storageError}</span>
+        <Button size="icon" variant="ghost" className="text-white hover:bg-red-700" onClick={dismissStorageError} title="Fechar"><X size={16}/></Button>
+      </div>
+    </div>
+  );
+}
+
+// Ctrl+Z / Ctrl+Shift+Z (e Ctrl+Y) fora dos campos de texto, que têm o próprio desfazer
+function useUndoShortcuts(){
+  useEffect(() => {
+    function onKey(e: KeyboardEvent){
+      if(!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const el = e.target as HTMLElement | null;
+      if(el && (el.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(el.tagName))) return;
+      const key = e.key.toLowerCase();
+      if(key === "z" && !e.shiftKey) useTL.getState().undo();
+      else if((key === "z" && e.shiftKey) || key === "y") useTL.getState().redo();
+      else return;
+      e.preventDefault();
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+}
+
 export default function App(){
+  useUndoShortcuts();
   return (
     <div className="min-h-screen">
+      <StorageErrorBanner />
       <Toolbar />
       <Timeline />
+      <EditNoteDialog />
     </div>
   );
 }
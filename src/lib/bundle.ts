@@ -0,0 +1,179 @@
+import JSZip from "jszip";
+import type { AtlasCalendar, Note } from "./types";
+import { FORMAT_ID, FORMAT_VERSION, readDocument, type DocumentSettings, type FormatIssue, type TimelineDocument } from "./fileFormat";
+import { dataURLToBlob, type ImageAsset } from "./storage";
+import { hashBlob } from "./images";
+
+/**
+ * Pacote .zip com o mundo inteiro, em arquivos separados (bons para o git):
+ *
+ *   manifest.json   formato, versões, contagens e a lista de imagens
+ *   notes.json      notas; `images` aponta para os arquivos em images/
+ *   calendars.json
+ *   settings.json   preferências de exibição
+ *   images/<hash>.<ext>
+ */
+export const BUNDLE_FORMAT = "atlas-timeline-bundle";
+export const BUNDLE_VERSION = 1;
+
+export type BundleImage = {
+  path: string; // caminho dentro do zip
+  type: string;
+  caption?: string;
+  alt?: string;
+  width?: number;
+  height?: number;
+};
+
+export type BundleManifest = {
+  format: typeof BUNDLE_FORMAT;
+  bundleVersion: number;
+  formatVersion: number; // versão do documento (notas/calendários), ver fileFormat
+  exportedAt: number;
+  notes: number;
+  calendars: number;
+  images: BundleImage[];
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "image/webp": "webp", "image/jpeg": "jpg", "image/png": "png", "image/gif": "gif", "image/svg+xml": "svg", "image/bmp": "bmp",
+};
+
+const json = (data: unknown) => JSON.stringify(data, null, 2) + "\n";
+
+// "images/<id>.<ext>" → id; o arquivo guarda a imagem já comprimida, cujo hash não é o id original
+const idFromPath = (path: string) => /^images\/([^/]+)\.[^./]+$/.exec(path)?.[1];
+
+/**
+ * Monta o zip. `loadImage` resolve as referências da biblioteca ("img:<id>");
+ * imagens em data URL viram arquivos também e endereços externos ficam como estão.
+ */
+export async function createBundle(
+  notes: Note[],
+  calendars: AtlasCalendar[],
+  settings: DocumentSettings,
+  loadImage: (ref: string) => Promise<ImageAsset | undefined>,
+): Promise<Blob> {
+  const zip = new JSZip();
+  const images = new Map<string, BundleImage>(); // por src original
+  const files = new Map<string, ArrayBuffer>();
+
+  async function fileFor(src: string) {
+    if (images.has(src)) return images.get(src)!.path;
+    let asset: ImageAsset | undefined;
+    if (src.startsWith("data:")) {
+      const blob = await dataURLToBlob(src);
+      asset = { id: await hashBlob(blob), blob, createdAt: 0 };
+    } else {
+      asset = await loadImage(src);
+    }
+    if (!asset) return src;
+    const path = `images/${asset.id}.${EXTENSIONS[asset.blob.type] ?? "bin"}`;
+    const { caption, alt, width, height } = asset;
+    images.set(src, { path, type: asset.blob.type, caption, alt, width, height });
+    files.set(path, await asset.blob.arrayBuffer());
+    return path;
+  }
+
+  const out: Note[] = [];
+  for (const n of notes) {
+    out.push(n.images?.length ? { ...n, images: await Promise.all(n.images.map(fileFor)) } : n);
+  }
+
+  // mesma imagem em várias notas: um arquivo só no manifesto
+  const listed = Array.from(new Map(Array.from(images.values()).map((x) => [x.path, x])).values());
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    bundleVersion: BUNDLE_VERSION,
+    formatVersion: FORMAT_VERSION,
+    exportedAt: Date.now(),
+    notes: out.length,
+    calendars: calendars.length,
+    images: listed,
+  };
+  zip.file("manifest.json", json(manifest));
+  zip.file("notes.json", json(out));
+  zip.file("calendars.json", json(calendars));
+  zip.file("settings.json", json(settings));
+  files.forEach((data, path) => zip.file(path, data));
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+}
+
+export type ReadBundle = {
+  document?: TimelineDocument;
+  images: Map<string, ImageAsset>; // caminho no zip → imagem (id = o da biblioteca de origem)
+  issues: FormatIssue[];
+};
+
+/**
+ * Lê um pacote criado por `createBundle`. O documento passa pela mesma
+ * migração e validação dos arquivos JSON; as notas continuam apontando
+ * para os caminhos em images/, resolvidos com o mapa `images`.
+ */
+export async function readBundle(file: Blob): Promise<ReadBundle> {
+  const images = new Map<string, ImageAsset>();
+  const fail = (message: string, path = ""): ReadBundle => ({ images, issues: [{ path, message }] });
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    return fail("Não é um arquivo .zip válido.");
+  }
+  const text = (name: string) => zip.file(name)?.async("string");
+
+  const rawManifest = await text("manifest.json");
+  if (!rawManifest) return fail("Falta o manifest.json.", "manifest.json");
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(rawManifest);
+  } catch {
+    return fail("manifest.json não é um JSON válido.", "manifest.json");
+  }
+  if (manifest.format !== BUNDLE_FORMAT) return fail("Não é um pacote da timeline.", "manifest.json");
+  if (manifest.bundleVersion > BUNDLE_VERSION) {
+    return fail(`Pacote da versão ${manifest.bundleVersion}, mais nova que a deste app (${BUNDLE_VERSION}).`, "manifest.json");
+  }
+
+  const parts: Record<string, unknown> = {};
+  for (const name of ["notes", "calendars", "settings"]) {
+    const raw = await text(`${name}.json`);
+    if (raw == null) {
+      if (name === "notes") return fail("Falta o notes.json.", "notes.json");
+      continue;
+    }
+    try {
+      parts[name] = JSON.parse(raw);
+    } catch {
+      return fail(`${name}.json não é um JSON válido.`, `${name}.json`);
+    }
+  }
+  // remonta o documento na versão registrada no manifesto e usa o mesmo leitor dos arquivos JSON
+  const parsed = readDocument({
+    format: FORMAT_ID,
+    version: manifest.formatVersion,
+    exportedAt: manifest.exportedAt,
+    calendars: parts.calendars ?? [],
+    notes: parts.notes,
+    settings: parts.settings ?? {},
+  });
+  if (!parsed.document) return { images, issues: parsed.issues };
+
+  const issues: FormatIssue[] = [];
+  for (const entry of manifest.images ?? []) {
+    const f = zip.file(entry.path);
+    if (!f) {
+      issues.push({ path: entry.path, message: "Imagem listada no manifesto mas ausente do pacote." });
+      continue;
+    }
+    const blob = new Blob([await f.async("arraybuffer")], { type: entry.type });
+    const { caption, alt, width, height } = entry;
+    images.set(entry.path, { id: idFromPath(entry.path) ?? await hashBlob(blob), blob, caption, alt, width, height, createdAt: Date.now() });
+  }
+  parsed.document.notes.forEach((n, i) => n.images?.forEach((src) => {
+    if (src.startsWith("images/") && !images.has(src) && !issues.some((x) => x.path === src)) {
+      issues.push({ path: `notes[${i}].images`, message: `Imagem “${src}” não está no pacote.`, note: i, title: n.title });
+    }
+  }));
+  return issues.length ? { images, issues } : { document: parsed.document, images, issues };
+}
@@ -0,0 +1,103 @@
+import type { AtlasCalendar, AtlasDate, Note } from "./types";
+import { monthLength, yearRange } from "./chronology";
+
+/**
+ * Como as datas de um calendário acompanham uma mudança nos meses e dias
+ * intercalares. Os mapas vão da posição antiga (mês 1-based, dia intercalar
+ * 0-based) para a nova; `undefined` = removido.
+ */
+export type CalendarMigration = {
+  months: (number | undefined)[];       // índice = mês antigo - 1
+  festivals: (number | undefined)[];    // índice = dia intercalar antigo
+  remap: Record<number, number | undefined>; // mês antigo removido → mês novo (ausente = fica só o ano)
+  overflow: "clamp" | "dropDay";        // dia maior que o novo mês: último dia do mês ou só mês/ano
+};
+
+export type MigrationReason = "removed" | "renumbered" | "clamped" | "dayDropped" | "festivalRemoved";
+
+export type MigratedDate = { date: AtlasDate; reasons: MigrationReason[] };
+
+export type AffectedNote = {
+  note: Note;
+  date?: MigratedDate;    // presente quando a data inicial muda
+  endDate?: MigratedDate; // idem para a data final
+};
+
+// Tamanho do mês no calendário novo; sem ano exato, o maior possível (com o dia bissexto)
+function maxDay(d: AtlasDate, month: number, next: AtlasCalendar) {
+  const exact = d.year != null || d.relativeEra === "ZERO" ? yearRange(d, next)?.first : undefined;
+  if (exact != null) return monthLength(exact, month, next);
+  return (next.months[month - 1]?.days ?? 0) + (next.leap?.month === month ? 1 : 0);
+}
+
+export function migrateDate(d: AtlasDate, m: CalendarMigration, next: AtlasCalendar): MigratedDate {
+  const out: AtlasDate = { ...d };
+  const reasons: MigrationReason[] = [];
+
+  if (d.intercalary != null) {
+    const idx = m.festivals[d.intercalary];
+    if (idx == null) {
+      delete out.intercalary;
+      reasons.push("festivalRemoved");
+    } else if (idx !== d.intercalary) {
+      out.intercalary = idx;
+      reasons.push("renumbered");
+    }
+  }
+
+  if (d.month != null) {
+    const mapped = m.months[d.month - 1];
+    const month = mapped ?? m.remap[d.month];
+    if (mapped == null) reasons.push("removed");
+    else if (mapped !== d.month) reasons.push("renumbered");
+    if (month == null) {
+      delete out.month;
+      delete out.day;
+    } else {
+      out.month = month;
+      const max = maxDay(out, month, next);
+      if (d.day != null && d.day > max) {
+        if (m.overflow === "clamp") {
+          out.day = max;
+          reasons.push("clamped");
+        } else {
+          delete out.day;
+          reasons.push("dayDropped");
+        }
+      }
+    }
+  }
+
+  return { date: reasons.length ? out : d, reasons };
+}
+
+/**
+ * Notas com datas do calendário editado (`belongs`) que mudam com a
+ * migração, já com as datas resultantes (para a pré-visualização antes de salvar).
+ */
+export function planMigration(
+  notes: Note[],
+  belongs: (d: AtlasDate) => boolean,
+  m: CalendarMigration,
+  next: AtlasCalendar,
+): AffectedNote[] {
+  const check = (d?: AtlasDate) => {
+    if (!d || !belongs(d)) return undefined;
+    const r = migrateDate(d, m, next);
+    return r.reasons.length ? r : undefined;
+  };
+  return notes
+    .map((note) => ({ note, date: check(note.date), endDate: check(note.endDate) }))
+    .filter((a) => a.date || a.endDate);
+}
+
+// Meses antigos (1-based) removidos que ainda são usados por alguma data
+export function removedMonthsInUse(affected: AffectedNote[]) {
+  const used = new Set<number>();
+  for (const a of affected) {
+    for (const [r, before] of [[a.date, a.note.date], [a.endDate, a.note.endDate]] as const) {
+      if (r?.reasons.includes("removed") && before?.month != null) used.add(before.month);
+    }
+  }
+  return Array.from(used).sort((a, b) => a - b);
+}
@@ -0,0 +1,490 @@
+import type { AtlasCalendar, AtlasDate, Cycle, DerivedField, Epoch, Level, Note } from "./types";
+
+// Intervalo fechado em dias absolutos, comuns a todos os calendários
+// (dia 0 = primeiro dia do ano 0 da época base do calendário principal)
+export type Span = { start: number; end: number };
+
+const mod = (a: number, n: number) => ((a % n) + n) % n;
+const gcd = (a: number, b: number): number => (b ? gcd(b, a % b) : Math.abs(a));
+
+// Dias de um ano comum: meses mais os dias intercalares que não dependem do ano bissexto
+export function daysInYear(cal: AtlasCalendar) {
+  const fixed = (cal.intercalaryDays ?? []).filter((x) => !x.leapOnly).length;
+  return cal.months.reduce((s, m) => s + m.days, 0) + fixed || 1;
+}
+
+// Dias a mais em um ano bissexto
+export function leapDaysPerYear(cal: AtlasCalendar) {
+  return (cal.leap?.month ? 1 : 0) + (cal.intercalaryDays ?? []).filter((x) => x.leapOnly).length;
+}
+
+// Ano com sinal na época base do calendário
+export function isLeapYear(year: number, cal: AtlasCalendar) {
+  const leap = cal.leap;
+  if (!leap?.every || mod(year, leap.every) !== 0) return false;
+  return !(leap.except && mod(year, leap.except) === 0);
+}
+
+// Quantidade de anos bissextos em [0, year) — negativa para anos antes do 0
+function leapYearsBefore(year: number, cal: AtlasCalendar) {
+  const leap = cal.leap;
+  if (!leap?.every) return 0;
+  const multiples = (k: number) => -Math.floor(-year / k);
+  const except = leap.except ? (leap.every * leap.except) / gcd(leap.every, leap.except) : 0;
+  return multiples(leap.every) - (except ? multiples(except) : 0);
+}
+
+export function yearLength(year: number, cal: AtlasCalendar) {
+  return daysInYear(cal) + (isLeapYear(year, cal) ? leapDaysPerYear(cal) : 0);
+}
+
+// Mês 1-based; inclui o dia bissexto quando a regra o coloca nesse mês
+export function monthLength(year: number, month: number, cal: AtlasCalendar) {
+  const m = cal.months[month - 1];
+  if (!m) return 0;
+  return m.days + (cal.leap?.month === month && isLeapYear(year, cal) ? 1 : 0);
+}
+
+type YearSegment = { month?: number; intercalary?: number; days: number };
+
+// Meses e dias intercalares de um ano, na ordem em que acontecem
+export function yearSegments(year: number, cal: AtlasCalendar): YearSegment[] {
+  const leap = isLeapYear(year, cal);
+  const extras = (after: number): YearSegment[] => (cal.intercalaryDays ?? [])
+    .map((x, i) => ({ x, i }))
+    .filter(({ x }) => Math.min(Math.max(x.afterMonth, 0), cal.months.length) === after && (!x.leapOnly || leap))
+    .map(({ i }) => ({ intercalary: i, days: 1 }));
+  const segments = extras(0);
+  cal.months.forEach((_, idx) => {
+    segments.push({ month: idx + 1, days: monthLength(year, idx + 1, cal) }, ...extras(idx + 1));
+  });
+  return segments;
+}
+
+export function yearsPerDecade(cal: AtlasCalendar) {
+  return Math.max(1, Math.round(cal.yearsPerCentury / (cal.decadesPerCentury || 1)));
+}
+
+export function yearsPerMillennium(cal: AtlasCalendar) {
+  return cal.yearsPerCentury * cal.centuriesPerMillennium;
+}
+
+export function epochOf(d: AtlasDate, cal: AtlasCalendar): Epoch {
+  return cal.epochs.find((e) => e.id === d.epoch) ?? cal.epochs[0];
+}
+
+// Ano com sinal dentro da própria época: AU → negativo, DU → positivo, ZERO → 0
+export function absoluteYear(year: number, relativeEra?: AtlasDate["relativeEra"]) {
+  if (relativeEra === "ZERO") return 0;
+  if (relativeEra === "AU") return -Math.abs(year);
+  return year;
+}
+
+export function yearStart(year: number, cal: AtlasCalendar) {
+  return cal.anchorDay + year * daysInYear(cal) + leapYearsBefore(year, cal) * leapDaysPerYear(cal);
+}
+
+function yearsToSpan(first: number, last: number, cal: AtlasCalendar): Span {
+  const lo = Math.min(first, last), hi = Math.max(first, last);
+  return { start: yearStart(lo, cal), end: yearStart(hi + 1, cal) - 1 };
+}
+
+// Unidades ordinais (1º século, 2º milênio...) contadas a partir do marco nos dois sentidos
+function ordinalUnitYears(index: number, length: number, relativeEra: AtlasDate["relativeEra"]) {
+  const first = (index - 1) * length + 1;
+  const last = index * length;
+  return relativeEra === "AU" ? { first: -last, last: -first } : { first, last };
+}
+
+/**
+ * Anos com sinal, na época base, cobertos pela parte mais específica da data
+ * (ano, década, século ou milênio, nessa ordem). Undefined quando não há nenhum deles.
+ */
+export function yearRange(d: AtlasDate, cal: AtlasCalendar): { first: number; last: number } | undefined {
+  const local = localYearRange(d, cal);
+  if (!local) return undefined;
+  const offset = epochOf(d, cal).offset;
+  return { first: local.first + offset, last: local.last + offset };
+}
+
+function localYearRange(d: AtlasDate, cal: AtlasCalendar): { first: number; last: number } | undefined {
+  if (d.relativeEra === "ZERO" || d.year != null) {
+    const y = absoluteYear(d.year ?? 0, d.relativeEra);
+    return { first: y, last: d.latestYear != null ? Math.max(d.latestYear, y) : y };
+  }
+  if (d.decade != null) {
+    const len = yearsPerDecade(cal), start = Math.abs(d.decade);
+    return d.relativeEra === "AU"
+      ? { first: -(start + len - 1), last: -start }
+      : { first: d.decade, last: d.decade + len - 1 };
+  }
+  if (d.century != null) return ordinalUnitYears(d.century, cal.yearsPerCentury, d.relativeEra);
+  if (d.millennium != null) return ordinalUnitYears(d.millennium, yearsPerMillennium(cal), d.relativeEra);
+  return undefined;
+}
+
+/**
+ * Converte uma AtlasDate no intervalo de dias absolutos que ela cobre.
+ * Datas completas viram um único dia; datas parciais (só ano, só século...)
+ * viram o intervalo inteiro do período. Retorna undefined quando não há
+ * nenhum componente numérico (ex.: só a era).
+ */
+export function dateSpan(d: AtlasDate, cal: AtlasCalendar): Span | undefined {
+  const years = yearRange(d, cal);
+  if (!years) return undefined;
+  // datas parciais e janelas de incerteza cobrem anos inteiros
+  if ((d.relativeEra !== "ZERO" && d.year == null) || d.latestYear != null) return yearsToSpan(years.first, years.last, cal);
+
+  const segments = yearSegments(years.first, cal);
+  const idx = segments.findIndex((seg) =>
+    d.intercalary != null ? seg.intercalary === d.intercalary : d.month != null && seg.month === d.month);
+  if (idx < 0) return yearsToSpan(years.first, years.first, cal);
+  const segStart = yearStart(years.first, cal) + segments.slice(0, idx).reduce((s, seg) => s + seg.days, 0);
+  const seg = segments[idx];
+  if (seg.intercalary != null) return { start: segStart, end: segStart };
+  if (d.day == null) return { start: segStart, end: segStart + seg.days - 1 };
+  const day = segStart + Math.min(Math.max(d.day, 1), seg.days) - 1;
+  return { start: day, end: day };
+}
+
+/**
+ * Preenche década, século e milênio a partir do campo mais específico
+ * (ano → década/século → milênio), exceto nos campos listados em
+ * `overrides`, que o usuário fixou manualmente.
+ */
+export function deriveDate(d: AtlasDate, cal: AtlasCalendar): AtlasDate {
+  const keep = (f: DerivedField) => !!d.overrides?.includes(f);
+  const out: AtlasDate = { ...d };
+  const year = d.year != null && d.relativeEra !== "ZERO" && d.year !== 0 ? Math.abs(d.year) : undefined;
+
+  if (year != null && !keep("decade")) {
+    const len = yearsPerDecade(cal);
+    out.decade = Math.floor(year / len) * len;
+  }
+  const first = year ?? (out.decade != null ? Math.max(Math.abs(out.decade), 1) : undefined);
+  if (first != null && !keep("century")) out.century = Math.floor((first - 1) / cal.yearsPerCentury) + 1;
+  if (out.century != null && !keep("millennium")) out.millennium = Math.floor((out.century - 1) / cal.centuriesPerMillennium) + 1;
+  return out;
+}
+
+/**
+ * Inverso de dateSpan para um único dia: devolve a data completa
+ * (ano, mês e dia, ou o dia intercalar) que contém o dia absoluto informado.
+ */
+export function dateFromDay(day: number, cal: AtlasCalendar, epochId?: string): AtlasDate {
+  const span = yearStart(1000, cal) - yearStart(0, cal); // duração média de 1000 anos
+  let y = Math.floor(((day - cal.anchorDay) * 1000) / (span || 1));
+  while (yearStart(y + 1, cal) <= day) y++;
+  while (yearStart(y, cal) > day) y--;
+  let rest = day - yearStart(y, cal);
+  const segments = yearSegments(y, cal);
+  let i = 0;
+  while (i < segments.length - 1 && rest >= segments[i].days) {
+    rest -= segments[i].days;
+    i++;
+  }
+  const seg = segments[i];
+  const date: AtlasDate = { year: Math.abs(y), epoch: cal.epochs[0]?.id, calendar: cal.id };
+  if (seg?.intercalary != null) date.intercalary = seg.intercalary;
+  else if (seg) { date.month = seg.month; date.day = rest + 1; }
+  date.relativeEra = y < 0 ? "AU" : y === 0 ? "ZERO" : "DU";
+  return toEpoch(deriveDate(date, cal), epochId, cal);
+}
+
+/**
+ * Reescreve a data na época pedida, mantendo o mesmo instante. Só datas com
+ * ano podem ser convertidas; datas de século/milênio sem ano continuam na
+ * época original (os períodos não se alinham entre épocas).
+ */
+export function toEpoch(d: AtlasDate, epochId: string | undefined, cal: AtlasCalendar): AtlasDate {
+  const from = epochOf(d, cal);
+  const to = cal.epochs.find((e) => e.id === epochId) ?? from;
+  if (from.id === to.id || (d.year == null && d.relativeEra !== "ZERO")) return { ...d, epoch: from.id };
+  const y = absoluteYear(d.year ?? 0, d.relativeEra) + from.offset - to.offset;
+  return deriveDate({
+    ...d,
+    epoch: to.id,
+    year: Math.abs(y),
+    relativeEra: y < 0 ? "AU" : y === 0 ? "ZERO" : "DU",
+    latestYear: d.latestYear != null ? d.latestYear + from.offset - to.offset : undefined,
+    overrides: undefined,
+  }, cal);
+}
+
+export function calendarOf(d: AtlasDate, calendars: AtlasCalendar[]): AtlasCalendar {
+  return calendars.find((c) => c.id === d.calendar) ?? calendars[0];
+}
+
+// Recalcula os campos derivados de cada data da nota no calendário em que ela foi registrada
+export function deriveNote<N extends Pick<Note, "date" | "endDate">>(n: N, calendars: AtlasCalendar[]): N {
+  return {
+    ...n,
+    date: deriveDate(n.date, calendarOf(n.date, calendars)),
+    endDate: n.endDate && deriveDate(n.endDate, calendarOf(n.endDate, calendars)),
+  };
+}
+
+/**
+ * Reescreve a data em outro calendário pelo dia absoluto em comum. A precisão
+ * é mantida: uma data só com ano continua só com ano (o ano que contém o
+ * início do período) e um século continua século.
+ */
+export function convertDate(d: AtlasDate, from: AtlasCalendar, to: AtlasCalendar): AtlasDate {
+  if (from.id === to.id) return { ...d, calendar: from.id };
+  const span = dateSpan(d, from);
+  if (!span) return { era: d.era, calendar: to.id };
+
+  const full = dateFromDay(span.start, to);
+  const out: AtlasDate = { era: d.era, calendar: to.id, epoch: full.epoch, relativeEra: full.relativeEra };
+  if (d.approximate) out.approximate = true;
+  if (d.year != null || d.relativeEra === "ZERO") {
+    out.year = full.year;
+    if (d.latestYear != null) {
+      const last = dateFromDay(span.end, to);
+      out.latestYear = absoluteYear(last.year ?? 0, last.relativeEra);
+      return deriveDate(out, to);
+    }
+    const exactDay = d.intercalary != null || (d.month != null && d.day != null);
+    if (exactDay || d.month != null) out.month = full.month;
+    if (exactDay) { out.day = full.day; out.intercalary = full.intercalary; }
+    return deriveDate(out, to);
+  }
+  const coarse = deriveDate({ ...out, year: full.year }, to);
+  if (d.decade != null) return { ...out, decade: coarse.decade, century: coarse.century, millennium: coarse.millennium };
+  if (d.century != null) return { ...out, century: coarse.century, millennium: coarse.millennium };
+  return { ...out, millennium: coarse.millennium };
+}
+
+// Cópia da nota com as datas reescritas em outro calendário (para exibição)
+export function noteInCalendar(n: Note, calendars: AtlasCalendar[], to: AtlasCalendar): Note {
+  const view = (d: AtlasDate) => convertDate(d, calendarOf(d, calendars), to);
+  return { ...n, date: view(n.date), endDate: n.endDate && view(n.endDate) };
+}
+
+// Intervalo da nota inteira: do início da data inicial ao fim da data final (se houver)
+export function noteDateSpan(n: Note, cal: AtlasCalendar): Span | undefined {
+  const start = dateSpan(n.date, cal);
+  const end = n.endDate ? dateSpan(n.endDate, cal) : undefined;
+  if (!start || !end) return start ?? end;
+  return { start: start.start, end: Math.max(start.end, end.end) };
+}
+
+export type Duration = { years: number; months: number; days: number };
+
+/**
+ * Duração em unidades do calendário entre duas datas. Com anos exatos
+ * conta a diferença (1200–1250 = 50 anos, descendo a meses e dias quando as
+ * duas datas os têm); com datas parciais conta o período inteiro coberto
+ * (Século 3 – Século 5 = 300 anos).
+ */
+export function durationBetween(start: AtlasDate, end: AtlasDate, cal: AtlasCalendar): Duration | undefined {
+  const a = yearRange(start, cal), b = yearRange(end, cal);
+  if (!a || !b) return undefined;
+  const exact = (d: AtlasDate) => d.year != null || d.relativeEra === "ZERO";
+  if (!exact(start) || !exact(end)) return { years: b.last - a.first + 1, months: 0, days: 0 };
+
+  let years = b.first - a.first, months = 0, days = 0;
+  if (start.month != null && end.month != null) {
+    months = end.month - start.month;
+    if (start.day != null && end.day != null) {
+      days = end.day - start.day;
+      if (days < 0) {
+        months -= 1;
+        const endYear = b.first - (end.month === 1 ? 1 : 0);
+        const prevMonth = end.month === 1 ? cal.months.length : end.month - 1;
+        days += monthLength(endYear, prevMonth, cal) || 30;
+      }
+    }
+    if (months < 0) {
+      years -= 1;
+      months += cal.months.length;
+    }
+  }
+  return { years, months, days };
+}
+
+// Chave de agrupamento de uma data em um nível (inclui os níveis acima para não misturar períodos)
+export function periodKey(d: AtlasDate, level: Level) {
+  const base = `${d.era||"?"}::${d.epoch??""}::${d.relativeEra??"DU"}`;
+  if (level === "ERA")        return `${d.era||"(Sem Era)"}`;
+  if (level === "MILLENNIUM") return `${base}::${d.millennium??"?"}`;
+  if (level === "CENTURY")    return `${base}::${d.millennium??"?"}::${d.century??"?"}`;
+  if (level === "DECADE")     return `${base}::${d.millennium??"?"}::${d.century??"?"}::${d.decade??"?"}`;
+  return `${base}::${d.millennium??"?"}::${d.century??"?"}::${d.decade??"?"}::${d.year??"?"}`;
+}
+
+// Só os campos que definem o período da data em um nível (ex.: o século inteiro)
+export function periodDate(d: AtlasDate, level: Level): AtlasDate {
+  if (level === "ERA") return { era: d.era };
+  const base: AtlasDate = { era: d.era, epoch: d.epoch, relativeEra: d.relativeEra };
+  if (level === "MILLENNIUM") return { ...base, millennium: d.millennium };
+  if (level === "CENTURY") return { ...base, millennium: d.millennium, century: d.century };
+  if (level === "DECADE") return { ...base, millennium: d.millennium, century: d.century, decade: d.decade };
+  return { ...base, millennium: d.millennium, century: d.century, decade: d.decade, year: d.year };
+}
+
+// Datas aproximadas ("c. 300") ou com janela ("entre 200 e 250")
+export function isUncertain(d: AtlasDate) {
+  return !!d.approximate || d.latestYear != null;
+}
+
+// Data da época base a partir de um ano com sinal
+export function signedYearDate(year: number, cal: AtlasCalendar): AtlasDate {
+  return { year: Math.abs(year), relativeEra: year < 0 ? "AU" : year === 0 ? "ZERO" : "DU", epoch: cal.epochs[0]?.id, calendar: cal.id };
+}
+
+// Sem âncora configurada: 1 do primeiro mês do ano 0 é o primeiro dia da semana
+export const defaultWeekAnchor = { year: 0, month: 1, day: 1, weekday: 0 };
+
+// Dia absoluto de uma data de referência (âncora da semana ou de um ciclo)
+function anchorDayOf(anchor: { year: number; month: number; day: number }, cal: AtlasCalendar) {
+  return dateSpan({ ...signedYearDate(anchor.year, cal), month: anchor.month, day: anchor.day }, cal)?.start;
+}
+
+/**
+ * Índice em `daysOfWeek` do dia da data, contado a partir da âncora do
+ * calendário. Só datas completas (ano, mês e dia) têm dia da semana;
+ * dias intercalares ficam fora da semana.
+ */
+export function weekdayIndex(d: AtlasDate, cal: AtlasCalendar): number | undefined {
+  const week = cal.daysOfWeek.length;
+  if (!week || d.month == null || d.day == null || (d.year == null && d.relativeEra !== "ZERO")) return undefined;
+  const day = dateSpan(d, cal)?.start;
+  const anchor = cal.weekAnchor ?? defaultWeekAnchor;
+  const anchorDay = anchorDayOf(anchor, cal);
+  if (day == null || anchorDay == null) return undefined;
+  return (((day - anchorDay + anchor.weekday) % week) + week) % week;
+}
+
+export function weekdayOf(d: AtlasDate, cal: AtlasCalendar): string | undefined {
+  const i = weekdayIndex(d, cal);
+  return i == null ? undefined : cal.daysOfWeek[i];
+}
+
+export type CyclePhase = {
+  cycle: Cycle;
+  index: number;      // índice em cycle.phases (-1 quando o ciclo não tem fases nomeadas)
+  name?: string;
+  dayInCycle: number; // dias desde o início do ciclo atual (0 = primeiro dia)
+  fraction: number;   // posição no ciclo, de 0 (início) até antes de 1
+};
+
+/**
+ * Fase de um ciclo no dia da data. Só datas que caem em um único dia
+ * (dia do mês ou dia intercalar) têm fase; o ciclo conta todos os dias,
+ * inclusive os intercalares.
+ */
+export function cyclePhase(d: AtlasDate, cycle: Cycle, cal: AtlasCalendar): CyclePhase | undefined {
+  const span = dateSpan(d, cal);
+  const anchorDay = anchorDayOf(cycle.anchor, cal);
+  if (!span || span.start !== span.end || anchorDay == null || !(cycle.period > 0)) return undefined;
+  const elapsed = (((span.start - anchorDay) % cycle.period) + cycle.period) % cycle.period;
+  const fraction = elapsed / cycle.period;
+  const index = cycle.phases.length ? Math.min(Math.floor(fraction * cycle.phases.length), cycle.phases.length - 1) : -1;
+  return { cycle, index, name: cycle.phases[index], dayInCycle: Math.floor(elapsed), fraction };
+}
+
+export function cyclePhases(d: AtlasDate, cal: AtlasCalendar): CyclePhase[] {
+  return (cal.cycles ?? []).map(c => cyclePhase(d, c, cal)).filter((p): p is CyclePhase => !!p);
+}
+
+// Eras são nomes livres: o intervalo de cada uma é deduzido das notas datadas que a citam
+export function buildEraSpans(notes: Note[], cal: AtlasCalendar) {
+  const eras = new Map<string, Span>();
+  for (const n of notes) {
+    if (!n.date.era) continue;
+    const s = noteDateSpan(n, cal);
+    if (!s) continue;
+    const prev = eras.get(n.date.era);
+    eras.set(n.date.era, prev ? { start: Math.min(prev.start, s.start), end: Math.max(prev.end, s.end) } : s);
+  }
+  return eras;
+}
+
+export type PeriodGroup = { key: string; date: AtlasDate; period?: Span; items: Note[] };
+
+export type Chronology = {
+  spanOf: (n: Note) => Span | undefined;
+  periodOf: (d: AtlasDate, level: Level) => Span | undefined;
+  compare: (a: Note, b: Note) => number;
+  group: (notes: Note[], level: Level, bounds?: Span) => PeriodGroup[];
+};
+
+/**
+ * Cronologia absoluta de um conjunto de notas. Ordena pelo início do
+ * intervalo e depois pelo período mais amplo primeiro (o século antes dos
+ * seus anos). Empates mantêm a ordem de entrada; notas sem data vão para o fim.
+ */
+export function createChronology(notes: Note[], cal: AtlasCalendar, displayEpoch?: string): Chronology {
+  const eras = buildEraSpans(notes, cal);
+  const cache = new Map<Note, Span | undefined>();
+
+  const spanOf = (n: Note) => {
+    if (!cache.has(n)) cache.set(n, noteDateSpan(n, cal) ?? (n.date.era ? eras.get(n.date.era) : undefined));
+    return cache.get(n);
+  };
+
+  const periodOf = (d: AtlasDate, level: Level) => {
+    const p = periodDate(d, level);
+    return dateSpan(p, cal) ?? (p.era ? eras.get(p.era) : undefined);
+  };
+
+  // Datas incertas entram na ordem pelo meio do intervalo possível
+  const sortKey = (n: Note, s: Span) => {
+    if (!isUncertain(n.date)) return s.start;
+    const own = dateSpan(n.date, cal) ?? s;
+    return (own.start + own.end) / 2;
+  };
+
+  const compare = (a: Note, b: Note) => {
+    const sa = spanOf(a), sb = spanOf(b);
+    if (sa && sb) {
+      const ka = sortKey(a, sa), kb = sortKey(b, sb);
+      if (ka !== kb) return ka - kb;
+      if (sa.end !== sb.end) return sb.end - sa.end;
+    } else if (sa || sb) {
+      return sa ? -1 : 1;
+    }
+    return 0;
+  };
+
+  /**
+   * Agrupa notas pelo período do nível pedido. Notas com data final aparecem
+   * em todos os períodos que atravessam; `bounds` recorta esses períodos ao
+   * grupo pai (usado nos agrupamentos aninhados). Os períodos são contados
+   * na época de exibição.
+   */
+  const group = (list: Note[], level: Level, bounds?: Span) => {
+    const groups = new Map<string, PeriodGroup>();
+    const put = (n: Note, original: AtlasDate) => {
+      const d = toEpoch(original, displayEpoch, cal);
+      const key = periodKey(d, level);
+      if (!groups.has(key)) groups.set(key, { key, date: periodDate(d, level), period: periodOf(d, level), items: [] });
+      const g = groups.get(key)!;
+      if (!g.items.includes(n)) g.items.push(n);
+    };
+    const clipped = (d: AtlasDate, day: number) => ({ ...dateFromDay(day, cal), era: d.era });
+
+    const ordered = [...list].sort(compare);
+    const spans: Note[] = [];
+    for (const n of ordered) {
+      const s = spanOf(n);
+      if (!n.endDate || !s) { put(n, n.date); continue; }
+      spans.push(n);
+      put(n, bounds && s.start < bounds.start ? clipped(n.date, bounds.start) : n.date);
+      put(n, bounds && s.end > bounds.end ? clipped(n.endDate, bounds.end) : n.endDate);
+    }
+    for (const n of spans) {
+      const s = spanOf(n)!;
+      for (const g of groups.values()) {
+        if (g.period && g.period.start <= s.end && g.period.end >= s.start && !g.items.includes(n)) g.items.push(n);
+      }
+    }
+
+    return Array.from(groups.values())
+      .sort((a, b) => a.period && b.period ? a.period.start - b.period.start : a.period ? -1 : b.period ? 1 : 0)
+      .map((g) => ({ ...g, items: g.items.sort(compare) }));
+  };
+
+  return { spanOf, periodOf, compare, group };
+}
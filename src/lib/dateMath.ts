@@ -0,0 +1,68 @@
+import type { AtlasCalendar, AtlasDate } from "./types";
+import {
+  absoluteYear, dateFromDay, dateSpan, deriveDate, durationBetween, monthLength, signedYearDate, toEpoch, yearRange,
+  type Duration,
+} from "./chronology";
+
+const exactYear = (d: AtlasDate) => d.year != null || d.relativeEra === "ZERO";
+
+/**
+ * Soma anos, meses e dias (valores negativos subtraem) a uma data. A data
+ * precisa ter o ano; meses exigem o mês e dias exigem o dia (ou um dia
+ * intercalar). O resultado mantém a precisão e a época da data original e
+ * o dia é ajustado ao tamanho do mês de destino (31 → 30).
+ */
+export function addToDate(d: AtlasDate, delta: Partial<Duration>, cal: AtlasCalendar): AtlasDate | undefined {
+  const years = delta.years ?? 0, months = delta.months ?? 0, days = delta.days ?? 0;
+  const range = yearRange(d, cal);
+  if (!range || !exactYear(d)) return undefined;
+  if (months && d.month == null) return undefined;
+  if (days && d.day == null && d.intercalary == null) return undefined;
+
+  let year = range.first + years;
+  let out: AtlasDate = { ...d, ...signedYearDate(year, cal), overrides: undefined, latestYear: undefined };
+  if (d.month != null) {
+    const total = d.month - 1 + months;
+    year += Math.floor(total / cal.months.length);
+    const month = ((total % cal.months.length) + cal.months.length) % cal.months.length + 1;
+    out = { ...out, ...signedYearDate(year, cal), month };
+    if (d.day != null) out.day = Math.min(d.day, monthLength(year, month, cal));
+  }
+  if (days) {
+    const start = dateSpan(out, cal)?.start;
+    if (start == null) return undefined;
+    out = { ...dateFromDay(start + days, cal), era: d.era };
+  }
+  const result = deriveDate(toEpoch(out, d.epoch ?? cal.epochs[0]?.id, cal), cal);
+  // a incerteza acompanha a data: "c." continua e a janela anda junto
+  if (d.approximate) result.approximate = true;
+  if (d.latestYear != null) {
+    const shift = absoluteYear(result.year ?? 0, result.relativeEra) - absoluteYear(d.year ?? 0, d.relativeEra);
+    result.latestYear = d.latestYear + shift;
+  }
+  return result;
+}
+
+export function subtractFromDate(d: AtlasDate, delta: Partial<Duration>, cal: AtlasCalendar) {
+  return addToDate(d, { years: -(delta.years ?? 0), months: -(delta.months ?? 0), days: -(delta.days ?? 0) }, cal);
+}
+
+export type DateDifference = { sign: -1 | 0 | 1; duration: Duration };
+
+/**
+ * Diferença de `a` para `b` em unidades do calendário (sign 1 = b depois de a).
+ * Com anos exatos desce até meses e dias; com datas parciais compara o
+ * início dos períodos em anos (Século 3 → Século 5 = 200 anos).
+ */
+export function dateDifference(a: AtlasDate, b: AtlasDate, cal: AtlasCalendar): DateDifference | undefined {
+  const sa = dateSpan(a, cal), sb = dateSpan(b, cal);
+  if (!sa || !sb) return undefined;
+  const sign = sb.start > sa.start ? 1 : sb.start < sa.start ? -1 : 0;
+  const [from, to] = sign < 0 ? [b, a] : [a, b];
+  if (exactYear(from) && exactYear(to)) {
+    const duration = durationBetween(from, to, cal);
+    return duration && { sign, duration };
+  }
+  const years = yearRange(to, cal)!.first - yearRange(from, cal)!.first;
+  return { sign, duration: { years, months: 0, days: 0 } };
+}
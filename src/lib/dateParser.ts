@@ -0,0 +1,196 @@
+import type { AtlasCalendar, AtlasDate } from "./types";
+import { absoluteYear, deriveDate, monthLength, signedYearDate, toEpoch, yearRange, yearsPerDecade } from "./chronology";
+
+export type ParsedDate = {
+  date?: AtlasDate;
+  errors: string[];
+};
+
+// Comparação sem acentos nem maiúsculas ("Século" = "seculo")
+export function normalizeText(s: string) {
+  return s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function fromRoman(s: string) {
+  const values: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100, d: 500, m: 1000 };
+  let total = 0;
+  for (let i = 0; i < s.length; i++) {
+    const v = values[s[i]], next = values[s[i + 1]] ?? 0;
+    total += v < next ? -v : v;
+  }
+  return total;
+}
+
+// "340", "12.345" (separador de milhar do pt-BR), "XIV"
+function parseNumber(s: string) {
+  if (/^\d{1,3}(\.\d{3})+$/.test(s)) return Number(s.replace(/\./g, ""));
+  if (/^\d+$/.test(s)) return Number(s);
+  if (/^[ivxlcdm]+$/.test(s)) return fromRoman(s);
+  return undefined;
+}
+
+const QUALIFIERS: Record<string, number> = { inicio: 0.05, comeco: 0.05, meados: 0.5, fim: 0.95, final: 0.95 };
+
+/**
+ * Entende datas escritas por extenso no calendário informado:
+ * "12 de Lume de 340 a.U.", "Lume de 340", "século 4", "Década de 340",
+ * "3º milênio", "meados do 2º milênio", "Era de Ouro, ano 15",
+ * "340 depois da Fundação", "c. 300", "entre 200 e 250 a.U.". Tudo o que `formatAtlasDate` escreve volta
+ * para os mesmos campos.
+ */
+export function parseAtlasDate(input: string, cal: AtlasCalendar): ParsedDate {
+  const errors: string[] = [];
+  const fail = (msg: string): ParsedDate => ({ errors: [...errors, msg] });
+
+  // "• Dya" no fim é o dia da semana escrito pelo formatador
+  let text = input.split("•")[0].trim();
+  if (!text) return { errors: [] };
+
+  // "Era de Ouro, ano 15": o que vem antes da vírgula é a era
+  let era: string | undefined;
+  const comma = text.indexOf(",");
+  if (comma >= 0) {
+    era = text.slice(0, comma).trim() || undefined;
+    text = text.slice(comma + 1).trim();
+  }
+
+  // "c. 300", "por volta de 300": data aproximada
+  const circa = text.match(/^(c\.|ca\.|circa|cerca de|por volta de|aprox\.|aproximadamente)\s*/i);
+  if (circa) text = text.slice(circa[0].length);
+  const approx = (p: ParsedDate): ParsedDate => circa && p.date ? { ...p, date: { ...p.date, approximate: true } } : p;
+
+  // "entre 200 e 250 a.U.": janela de incerteza entre dois anos
+  const between = text.match(/^entre\s+(.+?)\s+e\s+(.+)$/i);
+  if (between) return approx(parseWindow(between[1], between[2], era, cal));
+
+  let t = normalizeText(text);
+
+  // Época: abreviação no fim ("a.U.") ou "antes/depois de <nome>"
+  let epochId = cal.epochs[0]?.id;
+  let rel: "AU" | "DU" | undefined;
+  const suffixes = cal.epochs
+    .flatMap((ep) => [
+      { text: escapeRegExp(normalizeText(ep.before)), epoch: ep.id, rel: "AU" as const },
+      { text: escapeRegExp(normalizeText(ep.after)), epoch: ep.id, rel: "DU" as const },
+      { text: `antes d[aeo]s? ${escapeRegExp(normalizeText(ep.name))}`, epoch: ep.id, rel: "AU" as const },
+      { text: `depois d[aeo]s? ${escapeRegExp(normalizeText(ep.name))}`, epoch: ep.id, rel: "DU" as const },
+    ])
+    .filter((x) => x.text)
+    .sort((a, b) => b.text.length - a.text.length);
+  for (const sfx of suffixes) {
+    const m = t.match(new RegExp(`(^|\\s)${sfx.text}$`));
+    if (m) {
+      epochId = sfx.epoch;
+      rel = sfx.rel;
+      t = t.slice(0, m.index).trim();
+      break;
+    }
+  }
+
+  // Só texto, sem números: é o nome de uma era
+  if (!t) return era ? { date: { era, calendar: cal.id }, errors } : fail("Falta a data.");
+  if (!/\d/.test(t) && !/^(inicio|comeco|meados|fim|final|seculo|decada|ano)\b/.test(t) && comma < 0) {
+    const isMonth = [...cal.months.map((m) => m.name), ...(cal.intercalaryDays ?? []).map((f) => f.name)]
+      .some((name) => normalizeText(name) === t);
+    if (isMonth) return fail("Falta o ano.");
+    return { date: { era: text.trim(), calendar: cal.id }, errors };
+  }
+
+  const base: AtlasDate = { era, epoch: epochId, calendar: cal.id };
+  const withYear = (year: number): AtlasDate => {
+    // ano negativo sem abreviação = antes do marco
+    const r = year === 0 ? "ZERO" : year < 0 ? "AU" : rel ?? "DU";
+    return { ...base, year: Math.abs(year), relativeEra: r };
+  };
+  const coarse = (fields: AtlasDate): AtlasDate => ({ ...base, ...fields, relativeEra: rel ?? "DU" });
+
+  // "início do", "meados do", "fim do": a parte correspondente do período, um nível abaixo
+  let qualifier: number | undefined;
+  const q = t.match(/^(inicio|comeco|meados|fim|final) d[aeo]s? (.+)$/);
+  if (q) {
+    qualifier = QUALIFIERS[q[1]];
+    t = q[2];
+  }
+
+  let date: AtlasDate | undefined;
+  let m: RegExpMatchArray | null;
+  if ((m = t.match(/^(\d+) ?[ºo°]? milenio$/))) {
+    date = coarse({ millennium: Number(m[1]) });
+  } else if ((m = t.match(/^seculo ([ivxlcdm]+|\d+)(?: \([ivxlcdm]+\))?$/))) {
+    date = coarse({ century: parseNumber(m[1]) });
+  } else if ((m = t.match(/^decada de ([\d.]+)$/))) {
+    date = coarse({ decade: parseNumber(m[1]) });
+  } else if ((m = t.match(/^(?:ano )?(-?[\d.]+)$/))) {
+    const y = parseNumber(m[1].replace(/^-/, ""));
+    if (y == null) return fail(`Ano inválido: “${m[1]}”.`);
+    date = withYear(m[1].startsWith("-") ? -y : y);
+  } else if ((m = t.match(/^(\d+) de (.+?) de (?:ano )?([\d.]+)$/)) || (m = t.match(/^()(.+?) de (?:ano )?([\d.]+)$/))) {
+    const year = parseNumber(m[3]);
+    if (year == null) return fail(`Ano inválido: “${m[3]}”.`);
+    const name = m[2];
+    const month = cal.months.findIndex((x) => normalizeText(x.name) === name);
+    const festival = (cal.intercalaryDays ?? []).findIndex((x) => normalizeText(x.name) === name);
+    date = withYear(year);
+    if (month >= 0) {
+      date.month = month + 1;
+      if (m[1]) date.day = Number(m[1]);
+    } else if (festival >= 0 && !m[1]) {
+      date.intercalary = festival;
+    } else {
+      return fail(`Mês desconhecido: “${name}”.`);
+    }
+  } else {
+    return fail(`Não entendi “${text}”.`);
+  }
+
+  if (qualifier != null) {
+    if (date.year != null || date.relativeEra === "ZERO") return fail("“início/meados/fim” só valem para milênio, século ou década.");
+    const range = yearRange(date, cal);
+    if (!range) return fail(`Não entendi “${text}”.`);
+    let rep = range.first + Math.floor((range.last - range.first) * qualifier);
+    let full = toEpoch(deriveDate(signedYearDate(rep, cal), cal), epochId, cal);
+    // a década que começa no último ano do século anterior (300 no século 4) conta como do século anterior
+    if (date.century != null && deriveDate({ decade: full.decade }, cal).century !== date.century) {
+      rep += yearsPerDecade(cal) * (rep < 0 ? -1 : 1);
+      full = toEpoch(deriveDate(signedYearDate(rep, cal), cal), epochId, cal);
+    }
+    const pick: AtlasDate = date.millennium != null
+      ? { century: full.century, millennium: full.millennium }
+      : date.century != null
+        ? { decade: full.decade, century: full.century, millennium: full.millennium }
+        : { year: full.year, relativeEra: full.relativeEra };
+    date = { ...base, relativeEra: full.relativeEra, ...pick };
+  }
+
+  const result = deriveDate(date, cal);
+  if (circa) result.approximate = true;
+
+  // Dia dentro do mês (bissextos incluídos)
+  if (result.month != null && result.day != null) {
+    const y = yearRange(result, cal)?.first;
+    const max = y != null ? monthLength(y, result.month, cal) : cal.months[result.month - 1].days;
+    if (result.day < 1 || result.day > max) errors.push(`${cal.months[result.month - 1].name} tem ${max} dias${y != null ? " neste ano" : ""}.`);
+  }
+  return { date: result, errors };
+}
+
+const YEAR_ONLY = /^\s*(ano\s+)?-?[\d.]+\s*$/i;
+
+function parseWindow(fromText: string, toText: string, era: string | undefined, cal: AtlasCalendar): ParsedDate {
+  const last = parseAtlasDate(toText, cal);
+  // "entre 200 e 250 a.U.": a abreviação escrita só no fim vale para o início também
+  const tail = toText.replace(/^\s*(ano\s+)?-?[\d.]+\s*/i, "");
+  const first = parseAtlasDate(YEAR_ONLY.test(fromText) && tail ? `${fromText} ${tail}` : fromText, cal);
+  const errors = [...first.errors, ...last.errors];
+  if (!first.date || !last.date) return { errors };
+  const exact = (d: AtlasDate) => (d.year != null || d.relativeEra === "ZERO") && d.month == null && d.intercalary == null;
+  if (!exact(first.date) || !exact(last.date)) return { errors: [...errors, "A janela precisa de dois anos (ex.: entre 200 e 250)."] };
+  // as pontas valem pela posição no tempo: antes do marco os anos contam para trás ("entre 200 e 250 a.U." começa em 250 a.U.)
+  const end = toEpoch(last.date, first.date.epoch, cal);
+  const a = absoluteYear(first.date.year ?? 0, first.date.relativeEra), b = absoluteYear(end.year ?? 0, end.relativeEra);
+  if (a === b) return { errors: [...errors, "As duas pontas da janela são o mesmo ano."] };
+  const start = a < b ? first.date : end;
+  return { date: { ...start, era, latestYear: Math.max(a, b) }, errors };
+}
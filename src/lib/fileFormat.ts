@@ -0,0 +1,267 @@
+import { LEVELS, RELATION_TYPES, type AtlasCalendar, type Level, type Note, type TagStyles } from "./types";
+import { isRelationType } from "./relations";
+
+/**
+ * Formato dos arquivos exportados. Cada versão antiga tem uma migração para
+ * a seguinte; um arquivo é migrado até a versão atual e só então validado.
+ *
+ *   1 — array de notas, sem calendário (exportações até agora)
+ *   2 — documento com versão, calendários, notas e preferências de exibição
+ */
+export const FORMAT_ID = "atlas-timeline";
+export const FORMAT_VERSION = 2;
+
+export type DocumentSettings = {
+  layout?: string;
+  displayCalendar?: string;
+  displayEpoch?: string;
+  showCycles?: boolean;
+  tagStyles?: TagStyles; // cores e ícones das tags
+};
+
+export type TimelineDocument = {
+  format: typeof FORMAT_ID;
+  version: number;
+  exportedAt: number;
+  calendars: AtlasCalendar[]; // vazio = o arquivo não trouxe calendário (versão 1): mantém os atuais
+  notes: Note[];
+  settings: DocumentSettings;
+};
+
+// Problema encontrado em um campo; `note` é a posição da nota no arquivo (0-based)
+export type FormatIssue = { path: string; message: string; note?: number; title?: string };
+
+export type ParsedDocument = { document?: TimelineDocument; version?: number; issues: FormatIssue[] };
+
+// Notas antigas não tinham o sentido em relação ao marco: ano negativo = antes
+export function normalizeNote(n: Note): Note {
+  return { ...n, date: { ...n.date, relativeEra: n.date.relativeEra || ((n.date.year ?? 0) < 0 ? "AU" : "DU") } };
+}
+
+type Raw = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Raw => typeof v === "object" && v !== null && !Array.isArray(v);
+const isInt = (v: unknown): v is number => Number.isInteger(v);
+const isPositiveInt = (v: unknown): v is number => isInt(v) && v > 0;
+
+// Cada migração recebe o documento ainda não validado e devolve o da versão seguinte
+const MIGRATIONS: Record<number, (doc: unknown) => unknown> = {
+  1: (notes) => ({
+    format: FORMAT_ID,
+    version: 2,
+    exportedAt: 0,
+    calendars: [],
+    notes: Array.isArray(notes) ? notes.map((n: unknown) => isObject(n) && isObject(n.date) ? normalizeNote(n as Note) : n) : notes,
+    settings: {},
+  }),
+};
+
+function detectVersion(data: unknown): number | undefined {
+  if (Array.isArray(data)) return 1;
+  if (isObject(data) && data.format === FORMAT_ID && isInt(data.version)) return data.version;
+  return undefined;
+}
+
+export function createDocument(notes: Note[], calendars: AtlasCalendar[], settings: DocumentSettings = {}): TimelineDocument {
+  return { format: FORMAT_ID, version: FORMAT_VERSION, exportedAt: Date.now(), calendars, notes, settings };
+}
+
+/**
+ * Lê um arquivo exportado (texto JSON) de qualquer versão. Com algum
+ * problema, `document` fica ausente e `issues` diz onde e por quê — nada
+ * deve ser gravado nesse caso.
+ */
+export function parseDocument(text: string): ParsedDocument {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    return { issues: [{ path: "", message: `Não é um JSON válido (${err instanceof Error ? err.message : String(err)}).` }] };
+  }
+  return readDocument(data);
+}
+
+// Mesmo caminho para dados já lidos (o pacote .zip traz as partes em arquivos separados)
+export function readDocument(data: unknown): ParsedDocument {
+  const version = detectVersion(data);
+  if (version == null) return { issues: [{ path: "", message: "Não é um arquivo da timeline (nem lista de notas, nem documento com versão)." }] };
+  if (version > FORMAT_VERSION) return { version, issues: [{ path: "version", message: `Arquivo da versão ${version}, mais nova que a deste app (${FORMAT_VERSION}).` }] };
+
+  let doc = data;
+  for (let v = version; v < FORMAT_VERSION; v++) doc = MIGRATIONS[v](doc);
+
+  const issues = validateDocument(doc);
+  if (issues.length || !isObject(doc)) return { version, issues };
+  return { version, document: { ...doc, settings: doc.settings ?? {} } as TimelineDocument, issues };
+}
+
+// ------------------ Validação ------------------
+function validateDocument(doc: unknown): FormatIssue[] {
+  if (!isObject(doc)) return [{ path: "", message: "Deveria ser um objeto." }];
+  const issues: FormatIssue[] = [];
+  const { calendars, notes, settings } = doc;
+  if (!Array.isArray(calendars)) issues.push({ path: "calendars", message: "Deveria ser uma lista de calendários." });
+  if (!Array.isArray(notes)) issues.push({ path: "notes", message: "Deveria ser uma lista de notas." });
+  if (settings != null && !isObject(settings)) issues.push({ path: "settings", message: "Deveria ser um objeto." });
+  else if (isObject(settings) && settings.tagStyles != null && (!isObject(settings.tagStyles) || !Object.values(settings.tagStyles).every(isObject))) {
+    issues.push({ path: "settings.tagStyles", message: "Deveria associar cada tag a { color, icon }." });
+  }
+  if (issues.length || !Array.isArray(calendars) || !Array.isArray(notes)) return issues;
+
+  calendars.forEach((c: unknown, i) => issues.push(...validateCalendar(c, `calendars[${i}]`)));
+  const byId = new Map(calendars.filter(isObject).map((c) => [String(c.id), c as AtlasCalendar]));
+
+  const ids = new Set<string>();
+  notes.forEach((n: unknown, i) => {
+    const found = validateNote(n, byId);
+    if (isObject(n) && typeof n.id === "string") {
+      if (ids.has(n.id)) found.push({ path: "id", message: `id repetido (“${n.id}”).` });
+      ids.add(n.id);
+    }
+    const title = isObject(n) && typeof n.title === "string" ? n.title : undefined;
+    issues.push(...found.map((x) => ({ ...x, path: x.path ? `notes[${i}].${x.path}` : `notes[${i}]`, note: i, title })));
+  });
+  return issues;
+}
+
+function validateCalendar(c: unknown, path: string): FormatIssue[] {
+  if (!isObject(c)) return [{ path, message: "Deveria ser um objeto." }];
+  const issues: FormatIssue[] = [];
+  const bad = (field: string, message: string) => issues.push({ path: `${path}.${field}`, message });
+  if (typeof c.id !== "string" || !c.id) bad("id", "Falta o id.");
+  if (typeof c.name !== "string") bad("name", "Falta o nome.");
+  if (!Array.isArray(c.months) || !c.months.length) bad("months", "Precisa de pelo menos um mês.");
+  else c.months.forEach((m: unknown, i: number) => {
+    if (!isObject(m) || typeof m.name !== "string" || !isPositiveInt(m.days)) bad(`months[${i}]`, "Mês precisa de nome e de um número de dias maior que zero.");
+  });
+  if (!Array.isArray(c.daysOfWeek) || c.daysOfWeek.some((d: unknown) => typeof d !== "string")) bad("daysOfWeek", "Deveria ser uma lista de nomes.");
+  for (const f of ["yearsPerCentury", "centuriesPerMillennium", "decadesPerCentury"]) {
+    if (c[f] != null && !isPositiveInt(c[f])) bad(f, "Deveria ser um inteiro maior que zero.");
+  }
+  if (c.anchorDay != null && !isInt(c.anchorDay)) bad("anchorDay", "Deveria ser um número inteiro.");
+  const monthCount = Array.isArray(c.months) ? c.months.length : 0;
+
+  if (c.epochs != null) {
+    if (!Array.isArray(c.epochs)) bad("epochs", "Deveria ser uma lista de épocas.");
+    else c.epochs.forEach((e: unknown, i: number) => {
+      if (!isObject(e)) {
+        bad(`epochs[${i}]`, "Deveria ser um objeto.");
+        return;
+      }
+      if (typeof e.id !== "string" || !e.id) bad(`epochs[${i}].id`, "Falta o id.");
+      for (const f of ["name", "before", "after"]) {
+        if (typeof e[f] !== "string") bad(`epochs[${i}].${f}`, "Deveria ser texto (pode ser vazio).");
+      }
+      if (!isInt(e.offset)) bad(`epochs[${i}].offset`, "Deveria ser um número inteiro.");
+    });
+  }
+
+  if (c.weekAnchor != null) {
+    const w = c.weekAnchor;
+    if (!isObject(w)) bad("weekAnchor", "Deveria ser um objeto.");
+    else {
+      if (!isInt(w.year)) bad("weekAnchor.year", "Deveria ser um número inteiro.");
+      if (!isPositiveInt(w.month) || w.month > monthCount) bad("weekAnchor.month", `Deveria ser um mês entre 1 e ${monthCount}.`);
+      if (!isPositiveInt(w.day)) bad("weekAnchor.day", "Deveria ser um inteiro a partir de 1.");
+      const week = Array.isArray(c.daysOfWeek) ? c.daysOfWeek.length : 0;
+      if (!isInt(w.weekday) || w.weekday < 0 || w.weekday >= Math.max(week, 1)) bad("weekAnchor.weekday", "Dia da semana que não existe no calendário.");
+    }
+  }
+
+  if (c.leap != null) {
+    const l = c.leap;
+    if (!isObject(l)) bad("leap", "Deveria ser um objeto.");
+    else {
+      if (!isPositiveInt(l.every)) bad("leap.every", "Deveria ser um inteiro maior que zero.");
+      if (l.except != null && !isPositiveInt(l.except)) bad("leap.except", "Deveria ser um inteiro maior que zero.");
+      if (l.month != null && (!isPositiveInt(l.month) || l.month > monthCount)) bad("leap.month", `Deveria ser um mês entre 1 e ${monthCount}.`);
+    }
+  }
+
+  if (c.intercalaryDays != null) {
+    if (!Array.isArray(c.intercalaryDays)) bad("intercalaryDays", "Deveria ser uma lista de dias.");
+    else c.intercalaryDays.forEach((d: unknown, i: number) => {
+      if (!isObject(d)) {
+        bad(`intercalaryDays[${i}]`, "Deveria ser um objeto.");
+        return;
+      }
+      if (typeof d.name !== "string") bad(`intercalaryDays[${i}].name`, "Falta o nome.");
+      if (!isInt(d.afterMonth) || d.afterMonth < 0 || d.afterMonth > monthCount) bad(`intercalaryDays[${i}].afterMonth`, `Deveria ser um mês entre 0 e ${monthCount}.`);
+      if (d.leapOnly != null && typeof d.leapOnly !== "boolean") bad(`intercalaryDays[${i}].leapOnly`, "Deveria ser verdadeiro ou falso.");
+    });
+  }
+
+  if (c.cycles != null) {
+    if (!Array.isArray(c.cycles)) bad("cycles", "Deveria ser uma lista de ciclos.");
+    else c.cycles.forEach((y: unknown, i: number) => {
+      if (!isObject(y)) {
+        bad(`cycles[${i}]`, "Deveria ser um objeto.");
+        return;
+      }
+      if (typeof y.id !== "string" || !y.id) bad(`cycles[${i}].id`, "Falta o id.");
+      if (typeof y.name !== "string") bad(`cycles[${i}].name`, "Falta o nome.");
+      if (typeof y.period !== "number" || !Number.isFinite(y.period) || y.period <= 0) bad(`cycles[${i}].period`, "Deveria ser um número maior que zero.");
+      if (!isObject(y.anchor) || !isInt(y.anchor.year) || !isPositiveInt(y.anchor.month) || !isPositiveInt(y.anchor.day)) {
+        bad(`cycles[${i}].anchor`, "Precisa de ano, mês e dia inteiros.");
+      }
+      if (!Array.isArray(y.phases) || y.phases.some((p: unknown) => typeof p !== "string")) bad(`cycles[${i}].phases`, "Deveria ser uma lista de nomes.");
+    });
+  }
+  return issues;
+}
+
+function validateNote(n: unknown, calendars: Map<string, AtlasCalendar>): FormatIssue[] {
+  if (!isObject(n)) return [{ path: "", message: "Deveria ser um objeto." }];
+  const issues: FormatIssue[] = [];
+  const bad = (path: string, message: string) => issues.push({ path, message });
+  if (typeof n.id !== "string" || !n.id) bad("id", "Falta o id.");
+  if (typeof n.title !== "string" || !n.title.trim()) bad("title", "Falta o título.");
+  if (n.description != null && typeof n.description !== "string") bad("description", "Deveria ser texto.");
+  if (!LEVELS.includes(n.level as Level)) bad("level", `Granularidade desconhecida (“${n.level}”); use ${LEVELS.join(", ")}.`);
+  if (typeof n.createdAt !== "number") bad("createdAt", "Falta a data de criação (número).");
+  if (n.weight != null && typeof n.weight !== "number") bad("weight", "Deveria ser um número.");
+  if (n.pinned != null && typeof n.pinned !== "boolean") bad("pinned", "Deveria ser verdadeiro ou falso.");
+  for (const f of ["images", "tags"]) {
+    const list = n[f];
+    if (list != null && (!Array.isArray(list) || list.some((x: unknown) => typeof x !== "string"))) bad(f, "Deveria ser uma lista de textos.");
+  }
+  if (n.relations != null && (!Array.isArray(n.relations) || n.relations.some((r: unknown) => !isObject(r) || !isRelationType(r.type) || typeof r.target !== "string"))) {
+    bad("relations", `Cada relação precisa de um tipo (${RELATION_TYPES.join(", ")}) e do id da outra nota.`);
+  }
+  if (!isObject(n.date)) bad("date", "Falta a data.");
+  else issues.push(...validateDate(n.date, calendars).map((x) => ({ ...x, path: `date.${x.path}` })));
+  if (n.endDate != null) {
+    if (!isObject(n.endDate)) bad("endDate", "Deveria ser uma data.");
+    else issues.push(...validateDate(n.endDate, calendars).map((x) => ({ ...x, path: `endDate.${x.path}` })));
+  }
+  return issues;
+}
+
+function validateDate(d: Raw, calendars: Map<string, AtlasCalendar>): FormatIssue[] {
+  const issues: FormatIssue[] = [];
+  const bad = (path: string, message: string) => issues.push({ path, message });
+  for (const f of ["millennium", "century", "decade", "year", "latestYear"] as const) {
+    if (d[f] != null && !isInt(d[f])) bad(f, "Deveria ser um número inteiro.");
+  }
+  if (d.era != null && typeof d.era !== "string") bad("era", "Deveria ser texto.");
+  if (d.relativeEra != null && (typeof d.relativeEra !== "string" || !["AU", "DU", "ZERO"].includes(d.relativeEra))) bad("relativeEra", `Valor desconhecido (“${d.relativeEra}”).`);
+  if (d.approximate != null && typeof d.approximate !== "boolean") bad("approximate", "Deveria ser verdadeiro ou falso.");
+
+  // sem a lista de calendários (versão 1) só dá para checar o formato
+  const calendarId = d.calendar ?? Array.from(calendars.keys())[0];
+  const cal = calendars.size && typeof calendarId === "string" ? calendars.get(calendarId) : undefined;
+  if (calendars.size && !cal) bad("calendar", `Calendário “${d.calendar}” não está no arquivo.`);
+  if (d.month != null) {
+    if (!isPositiveInt(d.month)) bad("month", "Deveria ser um inteiro a partir de 1.");
+    else if (cal && d.month > cal.months.length) bad("month", `O calendário “${cal.name}” tem ${cal.months.length} meses.`);
+  }
+  if (d.day != null) {
+    if (!isPositiveInt(d.day)) bad("day", "Deveria ser um inteiro a partir de 1.");
+    else if (d.month == null) bad("day", "Dia sem mês.");
+  }
+  if (d.intercalary != null && (!isInt(d.intercalary) || d.intercalary < 0 || (cal && d.intercalary >= (cal.intercalaryDays?.length ?? 0)))) {
+    bad("intercalary", "Dia intercalar que não existe no calendário.");
+  }
+  if (cal && d.epoch != null && !cal.epochs?.some((e) => e.id === d.epoch)) bad("epoch", `Época “${d.epoch}” não existe no calendário “${cal.name}”.`);
+  return issues;
+}
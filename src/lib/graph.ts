@@ -0,0 +1,100 @@
+/**
+ * Disposição do grafo de relações. O x de cada nota já vem pronto (o tempo);
+ * o y sai de uma simulação de forças simples: notas próximas no tempo se
+ * repelem, relações puxam as duas pontas para a mesma altura e tudo é
+ * atraído de leve para o meio. Determinística: a mesma entrada dá o mesmo
+ * desenho, sem sorteio.
+ */
+export type GraphNode = { id: string; x: number };
+export type GraphEdge = { from: string; to: string };
+
+export type GraphLayoutOptions = {
+  height: number;
+  padding?: number;    // margem em cima e embaixo
+  iterations?: number;
+  reach?: number;      // distância em x além da qual duas notas não se repelem
+};
+
+const REPULSION = 2500;
+const SPRING = 0.04;
+const GRAVITY = 0.008;
+const MAX_STEP = 24;
+
+export function layoutGraph(nodes: GraphNode[], edges: GraphEdge[], opts: GraphLayoutOptions): Map<string, number> {
+  const { height, padding = 30, iterations = 250, reach = 180 } = opts;
+  const center = height / 2;
+  const order = [...nodes].sort((a, b) => a.x - b.x);
+  const index = new Map(order.map((n, i) => [n.id, i]));
+  // começo em zigue-zague, para as vizinhas não nascerem empilhadas
+  const y = order.map((_, i) => center + (((i % 5) - 2) * (height - 2 * padding)) / 6);
+  const links = edges
+    .map((e) => [index.get(e.from), index.get(e.to)])
+    .filter((l): l is [number, number] => l[0] != null && l[1] != null && l[0] !== l[1]);
+
+  for (let it = 0; it < iterations; it++) {
+    const cooling = 1 - it / iterations;
+    const force = y.map((v) => (center - v) * GRAVITY);
+    for (let i = 0; i < order.length; i++) {
+      // as notas estão em ordem de x: as que importam são as próximas, até `reach`
+      for (let j = i + 1; j < order.length && order[j].x - order[i].x < reach; j++) {
+        const dx = order[j].x - order[i].x;
+        const dy = y[j] - y[i] || (j % 2 ? 0.5 : -0.5);
+        const d2 = dx * dx + dy * dy + 1;
+        const f = (REPULSION / d2) * (dy / Math.sqrt(d2));
+        force[i] -= f;
+        force[j] += f;
+      }
+    }
+    for (const [a, b] of links) {
+      const f = (y[b] - y[a]) * SPRING;
+      force[a] += f;
+      force[b] -= f;
+    }
+    for (let i = 0; i < y.length; i++) {
+      const step = Math.max(-MAX_STEP, Math.min(MAX_STEP, force[i])) * cooling;
+      y[i] = Math.max(padding, Math.min(height - padding, y[i] + step));
+    }
+  }
+  return new Map(order.map((n, i) => [n.id, y[i]]));
+}
+
+export type TimeAxis = { xs: number[]; width: number; toX: (day: number) => number };
+
+/**
+ * Eixo do tempo do grafo: x proporcional ao dia de cada nota, entre
+ * `padding` e `width - padding`. Uma nota que cairia a menos de `minGap` da
+ * anterior é empurrada para a direita só o bastante para não se sobrepor;
+ * as sem data vão para o fim. `toX` leva um dia qualquer para o eixo,
+ * interpolando entre as notas (e seguindo os empurrões).
+ */
+export function timeAxis(days: (number | undefined)[], opts: { width: number; minGap: number; padding?: number }): TimeAxis {
+  const { width, minGap, padding = minGap } = opts;
+  const dated = days
+    .map((day, i) => ({ day, i }))
+    .filter((x): x is { day: number; i: number } => x.day != null)
+    .sort((a, b) => a.day - b.day);
+  const min = dated[0]?.day ?? 0, max = dated[dated.length - 1]?.day ?? 0;
+  const scale = max > min ? (width - 2 * padding) / (max - min) : 0;
+
+  const xs: number[] = new Array(days.length);
+  const known: [number, number][] = []; // (dia, x) das notas com data, em ordem
+  let last = -Infinity;
+  for (const { day, i } of dated) {
+    xs[i] = last = Math.max(padding + (day - min) * scale, last + minGap);
+    known.push([day, last]);
+  }
+  days.forEach((day, i) => {
+    if (day == null) xs[i] = last = Math.max(padding, last + minGap);
+  });
+
+  const toX = (day: number) => {
+    if (!known.length) return padding;
+    const first = known[0], end = known[known.length - 1];
+    if (day <= first[0]) return Math.max(0, first[1] - (first[0] - day) * scale);
+    if (day >= end[0]) return end[1] + (day - end[0]) * scale;
+    const k = known.findIndex(([d]) => d > day);
+    const [d0, x0] = known[k - 1], [d1, x1] = known[k];
+    return x0 + ((day - d0) / (d1 - d0)) * (x1 - x0);
+  };
+  return { xs, width: Math.max(width, (last === -Infinity ? 0 : last) + padding), toX };
+}
@@ -0,0 +1,39 @@
+/**
+ * Pilha de desfazer/refazer. Cada passo guarda o estado de antes da mudança
+ * (em `past`) ou de antes do desfazer (em `future`), junto com a descrição
+ * da mudança ("Excluiu “Queda de Varn”").
+ */
+export type HistoryEntry<T> = { label: string; at: number; state: T };
+
+export type History<T> = { past: HistoryEntry<T>[]; future: HistoryEntry<T>[] };
+
+export const HISTORY_LIMIT = 100;
+
+export const emptyHistory = <T>(): History<T> => ({ past: [], future: [] });
+
+// Nova mudança: o estado anterior vai para `past` e o que havia para refazer se perde
+export function pushHistory<T>(h: History<T>, label: string, before: T): History<T> {
+  const past = [...h.past, { label, at: Date.now(), state: before }].slice(-HISTORY_LIMIT);
+  return { past, future: [] };
+}
+
+// Desfaz (`steps` > 0) ou refaz (`steps` < 0) vários passos de uma vez; undefined quando não há o que fazer
+export function travel<T>(h: History<T>, current: T, steps: number): { history: History<T>; state: T } | undefined {
+  let past = h.past, future = h.future, state = current;
+  for (let i = 0; i < Math.abs(steps); i++) {
+    const from = steps > 0 ? past : future;
+    const entry = from[from.length - 1];
+    if (!entry) break;
+    const back = { label: entry.label, at: entry.at, state };
+    if (steps > 0) {
+      past = past.slice(0, -1);
+      future = [...future, back];
+    } else {
+      future = future.slice(0, -1);
+      past = [...past, back];
+    }
+    state = entry.state;
+  }
+  if (state === current) return undefined;
+  return { history: { past, future }, state };
+}
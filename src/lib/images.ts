@@ -0,0 +1,131 @@
+import type { ImageAsset } from "./storage";
+
+const MAX_SIDE = 1600;      // lado maior da imagem guardada
+const THUMB_SIDE = 320;     // lado maior das miniaturas dos cards
+const QUALITY = 0.82;
+const COMPRESSIBLE = /^image\/(png|jpeg|webp|bmp)$/; // GIF (animação) e SVG ficam como vieram
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+// SHA-256 em JS para quando `crypto.subtle` não existe (página servida por http fora do localhost)
+function sha256(data: Uint8Array) {
+  const bits = data.length * 8;
+  const padded = new Uint8Array(Math.ceil((data.length + 9) / 64) * 64);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bits / 2 ** 32));
+  view.setUint32(padded.length - 4, bits >>> 0);
+  const h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+  for (let off = 0; off < padded.length; off += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(off + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      hh = g; g = f; f = e; e = (d + t1) >>> 0;
+      d = c; c = b; b = a; a = (t1 + t2) >>> 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d;
+    h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  h.forEach((x, i) => outView.setUint32(i * 4, x));
+  return out;
+}
+
+// SHA-256 do conteúdo: o mesmo arquivo enviado duas vezes vira uma imagem só
+export async function hashBlob(blob: Blob) {
+  const bytes = await blob.arrayBuffer();
+  const digest = globalThis.crypto?.subtle
+    ? new Uint8Array(await crypto.subtle.digest("SHA-256", bytes))
+    : sha256(new Uint8Array(bytes));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string) {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, QUALITY));
+}
+
+// Redesenha a imagem com o lado maior em `maxSide` (sem ampliar); WebP quando o navegador suporta
+async function encode(bitmap: ImageBitmap, maxSide: number, fallbackType: string) {
+  const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  const webp = await toBlob(canvas, "image/webp");
+  if (webp?.type === "image/webp") return webp;
+  return (await toBlob(canvas, fallbackType)) ?? undefined;
+}
+
+export async function makeThumbnail(blob: Blob): Promise<Blob | undefined> {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    try {
+      return await encode(bitmap, THUMB_SIDE, "image/jpeg");
+    } finally {
+      bitmap.close();
+    }
+  } catch {
+    return undefined; // formato que o navegador não desenha (SVG em alguns navegadores)
+  }
+}
+
+/**
+ * Prepara um arquivo enviado para a biblioteca: versão reduzida/comprimida
+ * (só se ficar menor), miniatura e id pelo hash do que fica guardado — o
+ * mesmo blob que vai para os arquivos exportados, para a imagem voltar com
+ * o mesmo id.
+ */
+export async function prepareImage(file: Blob): Promise<ImageAsset> {
+  const asset: ImageAsset = { id: "", blob: file, createdAt: Date.now() };
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    return { ...asset, id: await hashBlob(file) };
+  }
+  try {
+    asset.width = bitmap.width;
+    asset.height = bitmap.height;
+    if (COMPRESSIBLE.test(file.type)) {
+      const compressed = await encode(bitmap, MAX_SIDE, file.type === "image/png" ? "image/png" : "image/jpeg");
+      if (compressed && compressed.size < file.size) {
+        const scale = Math.min(1, MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+        asset.blob = compressed;
+        asset.width = Math.round(bitmap.width * scale);
+        asset.height = Math.round(bitmap.height * scale);
+      }
+    }
+    asset.thumb = await encode(bitmap, THUMB_SIDE, "image/jpeg");
+  } finally {
+    bitmap.close();
+  }
+  asset.id = await hashBlob(asset.blob);
+  return asset;
+}
+
+// Imagem que já passou por `prepareImage` (vinda de um arquivo exportado): entra como está, sem comprimir de novo
+export async function restoreImage(blob: Blob): Promise<ImageAsset> {
+  return { id: await hashBlob(blob), blob, createdAt: Date.now() };
+}
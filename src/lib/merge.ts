@@ -0,0 +1,205 @@
+import type { AtlasCalendar, AtlasDate, Note } from "./types";
+import { calendarOf, dateSpan } from "./chronology";
+import { normalizeText } from "./dateParser";
+
+// Campos comparados entre a nota local e a importada
+export const NOTE_FIELDS = ["title", "description", "date", "endDate", "level", "weight", "pinned", "tags", "images", "relations"] as const;
+export type NoteField = typeof NOTE_FIELDS[number];
+
+type NoteFields = Pick<Note, NoteField>;
+
+// Copia um campo de uma nota para outra, com o tipo do campo
+function copyField<F extends NoteField>(to: NoteFields, from: NoteFields, field: F) {
+  to[field] = from[field];
+}
+
+export type FieldDiff = { field: NoteField; local: unknown; incoming: unknown };
+
+/**
+ * O que acontece com cada nota do arquivo numa mesclagem:
+ *   new       — não existe aqui
+ *   unchanged — mesmo id e mesmo conteúdo
+ *   changed   — mesmo id; só um dos lados preencheu os campos diferentes (junta os dois)
+ *   conflict  — mesmo id e valores diferentes dos dois lados (escolha campo a campo)
+ *   duplicate — id diferente, mas mesmo título e mesma data de uma nota daqui
+ */
+export type ImportItem =
+  | { kind: "new"; incoming: Note }
+  | { kind: "unchanged"; incoming: Note; local: Note }
+  | { kind: "changed" | "conflict"; incoming: Note; local: Note; diffs: FieldDiff[] }
+  | { kind: "duplicate"; incoming: Note; local: Note };
+
+export type FieldChoice = "local" | "incoming";
+export type DuplicateChoice = "skip" | "both" | "replace";
+
+// Escolhas do usuário, por id da nota importada
+export type MergeChoices = {
+  fields: Record<string, Partial<Record<NoteField, FieldChoice>>>; // ausente = `defaultChoice`
+  duplicates: Record<string, DuplicateChoice>;                      // ausente = "skip"
+};
+
+const isEmpty = (v: unknown) => v == null || v === "" || (Array.isArray(v) && !v.length);
+
+// Comparação estrutural (ordem das chaves não importa; campos vazios contam como ausentes)
+function same(a: unknown, b: unknown): boolean {
+  if (isEmpty(a) && isEmpty(b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((x, i) => same(x, b[i]));
+  if (a && b && typeof a === "object" && typeof b === "object") {
+    const ra = a as Record<string, unknown>, rb = b as Record<string, unknown>;
+    const keys = new Set([...Object.keys(ra), ...Object.keys(rb)]);
+    return Array.from(keys).every((k) => same(ra[k], rb[k]));
+  }
+  return a === b;
+}
+
+// Sem escolha do usuário: o lado preenchido; com os dois preenchidos, o local
+export const defaultChoice = (d: FieldDiff): FieldChoice => isEmpty(d.local) ? "incoming" : "local";
+
+export function diffNotes(local: Note, incoming: Note): FieldDiff[] {
+  return NOTE_FIELDS
+    .filter((f) => !same(local[f], incoming[f]))
+    .map((field) => ({ field, local: local[field], incoming: incoming[field] }));
+}
+
+// Mesmo começo (no dia absoluto) quando dá para calcular; senão, a mesma era
+function sameDate(a: AtlasDate, b: AtlasDate, calendars: AtlasCalendar[]) {
+  const sa = dateSpan(a, calendarOf(a, calendars)), sb = dateSpan(b, calendarOf(b, calendars));
+  if (sa && sb) return sa.start === sb.start && sa.end === sb.end;
+  return !sa && !sb && normalizeText(a.era ?? "") === normalizeText(b.era ?? "");
+}
+
+export function planMerge(local: Note[], incoming: Note[], calendars: AtlasCalendar[]): ImportItem[] {
+  const byId = new Map(local.map((n) => [n.id, n]));
+  const byTitle = new Map<string, Note[]>();
+  local.forEach((n) => {
+    const k = normalizeText(n.title);
+    byTitle.set(k, [...(byTitle.get(k) ?? []), n]);
+  });
+  return incoming.map((n): ImportItem => {
+    const twin = byId.get(n.id);
+    if (twin) {
+      const diffs = diffNotes(twin, n);
+      if (!diffs.length) return { kind: "unchanged", incoming: n, local: twin };
+      const conflict = diffs.some((d) => !isEmpty(d.local) && !isEmpty(d.incoming));
+      return { kind: conflict ? "conflict" : "changed", incoming: n, local: twin, diffs };
+    }
+    const dup = byTitle.get(normalizeText(n.title))?.find((x) => sameDate(x.date, n.date, calendars));
+    return dup ? { kind: "duplicate", incoming: n, local: dup } : { kind: "new", incoming: n };
+  });
+}
+
+// Troca os alvos das relações conforme `ids` (id antigo → id final)
+function retarget(n: Note, ids: Map<string, string>): Note {
+  if (!n.relations?.some((r) => ids.has(r.target))) return n;
+  return { ...n, relations: n.relations.map((r) => ids.has(r.target) ? { ...r, target: ids.get(r.target)! } : r) };
+}
+
+/**
+ * Aplica a mesclagem: notas locais que o arquivo não traz continuam como
+ * estão. As relações acompanham as notas: uma duplicata ignorada passa a
+ * ser a nota daqui; uma substituída, a do arquivo. `newId` só é usado
+ * quando o id de uma duplicata mantida lado a lado já existe aqui.
+ */
+export function applyMerge(local: Note[], items: ImportItem[], choices: MergeChoices, newId: () => string): Note[] {
+  const ids = new Set(local.map((n) => n.id));
+  const replaced = new Map<string, Note>();
+  const removed = new Set<string>();
+  const added: Note[] = [];
+  const fromIncoming = new Map<string, string>(); // relações vindas do arquivo
+  const fromLocal = new Map<string, string>();    // relações das notas daqui
+  const incomingRelations = new Set<string>();    // notas mescladas que ficaram com as relações do arquivo
+  for (const item of items) {
+    switch (item.kind) {
+      case "new":
+        added.push(item.incoming);
+        break;
+      case "changed":
+      case "conflict": {
+        const picks = choices.fields[item.incoming.id] ?? {};
+        const merged: Note = { ...item.local };
+        for (const d of item.diffs) {
+          if ((picks[d.field] ?? defaultChoice(d)) !== "incoming") continue;
+          copyField(merged, item.incoming, d.field);
+          if (d.field === "relations") incomingRelations.add(merged.id);
+        }
+        replaced.set(item.local.id, merged);
+        break;
+      }
+      case "duplicate": {
+        const choice = choices.duplicates[item.incoming.id] ?? "skip";
+        if (choice === "skip") fromIncoming.set(item.incoming.id, item.local.id);
+        if (choice === "both") {
+          const id = ids.has(item.incoming.id) ? newId() : item.incoming.id;
+          if (id !== item.incoming.id) fromIncoming.set(item.incoming.id, id);
+          added.push({ ...item.incoming, id });
+        }
+        if (choice === "replace") {
+          removed.add(item.local.id);
+          fromLocal.set(item.local.id, item.incoming.id);
+          added.push(item.incoming);
+        }
+        break;
+      }
+    }
+  }
+  return [
+    ...local.filter((n) => !removed.has(n.id)).map((n) => {
+      const merged = replaced.get(n.id);
+      return merged ? retarget(merged, incomingRelations.has(n.id) ? fromIncoming : fromLocal) : retarget(n, fromLocal);
+    }),
+    ...added.map((n) => retarget(n, fromIncoming)),
+  ];
+}
+
+// "Acrescentar": todas as notas do arquivo entram; ids que já existem aqui são trocados (e as relações entre elas acompanham)
+export function appendNotes(local: Note[], incoming: Note[], newId: () => string): Note[] {
+  const ids = new Set(local.map((n) => n.id));
+  const renamed = new Map(incoming.filter((n) => ids.has(n.id)).map((n) => [n.id, newId()]));
+  return [...local, ...incoming.map((n) => {
+    const out = retarget(n, renamed);
+    return renamed.has(n.id) ? { ...out, id: renamed.get(n.id)! } : out;
+  })];
+}
+
+export type CalendarMerge = { calendars: AtlasCalendar[]; renamed: Map<string, string> }; // renamed: id no arquivo → id novo
+
+/**
+ * Calendários do arquivo que não existem aqui (pelo id) entram; os daqui
+ * não mudam. Um calendário do arquivo com o id de um daqui mas com outro
+ * conteúdo entra com id novo (e "(importado)" no nome), para as datas do
+ * arquivo continuarem lidas no calendário em que foram escritas.
+ */
+export function mergeCalendars(local: AtlasCalendar[], incoming: AtlasCalendar[], newId: () => string): CalendarMerge {
+  const byId = new Map(local.map((c) => [c.id, c]));
+  const renamed = new Map<string, string>();
+  const added: AtlasCalendar[] = [];
+  for (const c of incoming) {
+    const twin = byId.get(c.id);
+    if (!twin) added.push(c);
+    else if (!same(twin, c)) {
+      const id = newId();
+      renamed.set(c.id, id);
+      added.push({ ...c, id, name: `${c.name} (importado)` });
+    }
+  }
+  return { calendars: [...local, ...added], renamed };
+}
+
+/**
+ * Datas das notas do arquivo nos calendários depois da mesclagem: os ids
+ * renomeados são trocados e "sem calendário" (o principal do arquivo,
+ * `fileMain`) só continua assim se for também o principal daqui (`main`).
+ */
+export function retargetCalendars(notes: Note[], fileMain: string | undefined, renamed: Map<string, string>, main: string): Note[] {
+  const fix = (d: AtlasDate): AtlasDate => {
+    const original = d.calendar ?? fileMain;
+    if (original == null) return d;
+    const id = renamed.get(original) ?? original;
+    const calendar = d.calendar == null && id === main ? undefined : id;
+    return calendar === d.calendar ? d : { ...d, calendar };
+  };
+  return notes.map((n) => {
+    const date = fix(n.date), endDate = n.endDate && fix(n.endDate);
+    return date === n.date && endDate === n.endDate ? n : { ...n, date, endDate };
+  });
+}
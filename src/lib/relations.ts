@@ -0,0 +1,61 @@
+import { RELATION_TYPES, type Note, type Relation, type RelationType } from "./types";
+
+/**
+ * Relações entre notas. Cada nota guarda só as que saem dela; as que chegam
+ * (backlinks) são calculadas, lidas no sentido inverso: se A é "causa de" B,
+ * B aparece como "causada por" A. Relações para notas excluídas continuam
+ * guardadas e voltam a valer se a nota sair da lixeira.
+ */
+export const RELATION_INFO: Record<RelationType, { label: string; inverse: string; color: string }> = {
+  CAUSE: { label: "causa de", inverse: "causada por", color: "#ef4444" },
+  CONSEQUENCE: { label: "consequência de", inverse: "tem como consequência", color: "#f97316" },
+  PART_OF: { label: "parte de", inverse: "inclui", color: "#3b82f6" },
+  CONTEMPORARY: { label: "contemporânea de", inverse: "contemporânea de", color: "#22c55e" },
+  CONTRADICTS: { label: "contradiz", inverse: "contradita por", color: "#a855f7" },
+};
+
+export const isRelationType = (v: unknown): v is RelationType => RELATION_TYPES.includes(v as RelationType);
+
+// Uma ligação vista a partir de uma nota: `other` é a nota do outro lado
+export type NoteLink = { type: RelationType; other: string; incoming: boolean; label: string };
+
+export function linksOf(notes: Note[], id: string): NoteLink[] {
+  const note = notes.find((n) => n.id === id);
+  const out: NoteLink[] = (note?.relations ?? []).map((r) => ({ type: r.type, other: r.target, incoming: false, label: RELATION_INFO[r.type].label }));
+  for (const n of notes) {
+    if (n.id === id) continue;
+    for (const r of n.relations ?? []) {
+      if (r.target !== id) continue;
+      // simétrica já declarada dos dois lados: aparece uma vez só
+      if (r.type === "CONTEMPORARY" && out.some((l) => l.type === r.type && l.other === n.id)) continue;
+      out.push({ type: r.type, other: n.id, incoming: true, label: RELATION_INFO[r.type].inverse });
+    }
+  }
+  return out;
+}
+
+// Acrescenta sem repetir (mesmo tipo e mesmo destino) e sem ligar a nota a ela mesma
+export function addRelation(relations: Relation[] = [], r: Relation, self?: string): Relation[] {
+  if (r.target === self || relations.some((x) => x.type === r.type && x.target === r.target)) return relations;
+  return [...relations, r];
+}
+
+// Pares de notas ligadas, uma vez por par e tipo (para desenhar)
+export function relationPairs(notes: Note[]): { from: string; to: string; type: RelationType }[] {
+  const seen = new Set<string>();
+  const out: { from: string; to: string; type: RelationType }[] = [];
+  for (const n of notes) {
+    for (const r of n.relations ?? []) {
+      const key = r.type === "CONTEMPORARY" ? [r.type, ...[n.id, r.target].sort()].join("|") : [r.type, n.id, r.target].join("|");
+      if (seen.has(key)) continue;
+      seen.add(key);
+      out.push({ from: n.id, to: r.target, type: r.type });
+    }
+  }
+  return out;
+}
+
+// Apagar de vez: as relações que apontam para as notas apagadas somem (as notas sem mudança continuam as mesmas)
+export function dropRelationsTo(notes: Note[], ids: Set<string>): Note[] {
+  return notes.map((n) => n.relations?.some((r) => ids.has(r.target)) ? { ...n, relations: n.relations.filter((r) => !ids.has(r.target)) } : n);
+}
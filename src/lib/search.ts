@@ -0,0 +1,174 @@
+import type { Note } from "./types";
+
+/**
+ * Índice de busca em texto livre sobre título, descrição e tags. Sem
+ * acentos nem maiúsculas ("religiao" acha "Religião"), com prefixo (para
+ * quem ainda está digitando) e tolerância a erros de digitação. Cada
+ * palavra da busca precisa aparecer na nota; o título pesa mais que as
+ * tags, que pesam mais que a descrição.
+ */
+export type SearchField = "title" | "tags" | "description";
+
+export const SEARCH_FIELDS: SearchField[] = ["title", "tags", "description"];
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 3, tags: 2, description: 1 };
+
+// [início, fim) no texto original do campo
+export type Range = [number, number];
+
+type Posting = { id: string; field: SearchField; start: number; end: number };
+
+export type SearchIndex = { terms: Map<string, Posting[]> };
+
+export type SearchHit = { id: string; score: number; ranges: Record<SearchField, Range[]> };
+
+// Tira acentos e maiúsculas caractere a caractere: a posição i do resultado é a posição i do texto
+export function fold(text: string): string {
+  let out = "";
+  for (const c of text) {
+    const f = c.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+    out += f.length === c.length ? f : c;
+  }
+  return out;
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+function words(text: string): { word: string; start: number; end: number }[] {
+  return Array.from(fold(text).matchAll(WORD), (m) => ({ word: m[0], start: m.index!, end: m.index! + m[0].length }));
+}
+
+export function fieldsOf(n: Note): Record<SearchField, string> {
+  return {
+    title: n.title.normalize("NFC"),
+    tags: (n.tags ?? []).join(", ").normalize("NFC"),
+    description: (n.description ?? "").normalize("NFC"),
+  };
+}
+
+export function buildSearchIndex(notes: Note[]): SearchIndex {
+  const terms = new Map<string, Posting[]>();
+  for (const n of notes) {
+    const fields = fieldsOf(n);
+    for (const field of SEARCH_FIELDS) {
+      for (const w of words(fields[field])) {
+        const list = terms.get(w.word);
+        const posting = { id: n.id, field, start: w.start, end: w.end };
+        if (list) list.push(posting);
+        else terms.set(w.word, [posting]);
+      }
+    }
+  }
+  return { terms };
+}
+
+// Distância de edição, desistindo quando passa de `max`
+function distance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// Erros tolerados: nenhum em palavras curtas, um até 7 letras, dois acima disso
+const maxEdits = (word: string) => word.length < 4 ? 0 : word.length < 8 ? 1 : 2;
+
+// Termos do índice parecidos com `word`, com a nota de 0 a 1 de cada um
+function similarTerms(index: SearchIndex, word: string): [string, number][] {
+  const max = maxEdits(word);
+  const out: [string, number][] = [];
+  for (const term of index.terms.keys()) {
+    if (term === word) out.push([term, 1]);
+    else if (word.length >= 2 && term.startsWith(word)) out.push([term, 0.8]);
+    else if (max) {
+      const d = Math.min(distance(word, term, max), distance(word, term.slice(0, word.length), max) + 1);
+      if (d <= max) out.push([term, 0.6 - 0.15 * (d - 1)]);
+    }
+  }
+  return out;
+}
+
+const emptyRanges = (): Record<SearchField, Range[]> => ({ title: [], tags: [], description: [] });
+
+/**
+ * Notas que têm todas as palavras de `text` (aproximadas), da mais relevante
+ * para a menos. `only` restringe às notas visíveis; sem palavras, nada é
+ * encontrado.
+ */
+export function searchNotes(index: SearchIndex, text: string, only?: (id: string) => boolean): SearchHit[] {
+  const queryWords = words(text).map((x) => x.word);
+  if (!queryWords.length) return [];
+
+  type Tally = { score: number; matched: number; ranges: Record<SearchField, Range[]> };
+  const hits = new Map<string, Tally>();
+  const entry = (id: string) => {
+    let h = hits.get(id);
+    if (!h) hits.set(id, h = { score: 0, matched: 0, ranges: emptyRanges() });
+    return h;
+  };
+
+  queryWords.forEach((word, i) => {
+    const best = new Map<string, number>();
+    for (const [term, quality] of similarTerms(index, word)) {
+      for (const p of index.terms.get(term)!) {
+        if (only && !only(p.id)) continue;
+        const h = entry(p.id);
+        if (h.matched < i) continue; // já perdeu uma palavra anterior
+        h.ranges[p.field].push([p.start, p.end]);
+        best.set(p.id, Math.max(best.get(p.id) ?? 0, quality * FIELD_WEIGHTS[p.field]));
+      }
+    }
+    best.forEach((score, id) => {
+      const h = hits.get(id)!;
+      h.score += score;
+      h.matched++;
+    });
+  });
+
+  return Array.from(hits.entries())
+    .filter(([, h]) => h.matched === queryWords.length)
+    .map(([id, h]) => ({ id, score: h.score, ranges: mapRanges(h.ranges, mergeRanges) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+const mapRanges = (r: Record<SearchField, Range[]>, f: (x: Range[]) => Range[]) =>
+  ({ title: f(r.title), tags: f(r.tags), description: f(r.description) });
+
+function mergeRanges(ranges: Range[]): Range[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const out: Range[] = [];
+  for (const r of sorted) {
+    const last = out[out.length - 1];
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+    else out.push([r[0], r[1]]);
+  }
+  return out;
+}
+
+/**
+ * Trecho de `text` em volta do primeiro destaque, com reticências onde foi
+ * cortado. Os intervalos voltam ajustados ao trecho.
+ */
+export function snippet(text: string, ranges: Range[], radius = 60): { text: string; ranges: Range[] } {
+  if (text.length <= radius * 2) return { text, ranges };
+  const focus = ranges[0]?.[0] ?? 0;
+  let start = Math.max(0, focus - radius), end = Math.min(text.length, focus + radius);
+  // sem cortar palavras no meio
+  if (start > 0) start = text.lastIndexOf(" ", start) + 1;
+  if (end < text.length) end = text.indexOf(" ", end) < 0 ? text.length : text.indexOf(" ", end);
+  const prefix = start > 0 ? "…" : "", suffix = end < text.length ? "…" : "";
+  const shift = prefix.length - start;
+  return {
+    text: prefix + text.slice(start, end) + suffix,
+    ranges: ranges.filter(([a, b]) => a >= start && b <= end).map(([a, b]) => [a + shift, b + shift]),
+  };
+}
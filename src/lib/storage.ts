@@ -0,0 +1,295 @@
+import type { AtlasCalendar, Note, TagStyles, Trash } from "./types";
+import { hashBlob } from "./images";
+
+// Imagem da biblioteca, guardada uma vez (id = hash do conteúdo) e referenciada pelas notas
+export type ImageAsset = {
+  id: string;
+  blob: Blob;
+  thumb?: Blob;   // miniatura para os cards (gerada na hora para imagens antigas)
+  width?: number;
+  height?: number;
+  caption?: string;
+  alt?: string;
+  createdAt: number;
+};
+
+export type ImageMeta = Partial<Pick<ImageAsset, "caption" | "alt" | "thumb">>;
+
+/**
+ * Onde a timeline guarda notas, calendários e imagens. As imagens das notas
+ * são referências ("img:<id>") resolvidas por `getImage`; o backend de
+ * localStorage (usado quando não há IndexedDB) continua guardando data URLs.
+ * Todas as operações rejeitam a promise quando a escrita falha (cota cheia etc.).
+ */
+export interface StorageAdapter {
+  readonly kind: "indexeddb" | "localstorage";
+  loadNotes(): Promise<Note[]>;
+  saveNotes(notes: Note[]): Promise<void>;
+  loadCalendars(): Promise<AtlasCalendar[] | undefined>; // undefined = nada salvo ainda
+  saveCalendars(calendars: AtlasCalendar[]): Promise<void>;
+  loadTrash(): Promise<Trash>;
+  saveTrash(trash: Trash): Promise<void>;
+  loadTagStyles(): Promise<TagStyles>;
+  saveTagStyles(styles: TagStyles): Promise<void>;
+  putImage(asset: ImageAsset): Promise<string>; // devolve o valor a guardar em note.images; mesmo id = mesma imagem
+  imageRef(asset: ImageAsset): Promise<string>; // o mesmo valor, sem gravar (prévia de uma importação)
+  getImage(ref: string): Promise<ImageAsset | undefined>;
+  updateImage(ref: string, meta: ImageMeta): Promise<void>;
+  listImages(): Promise<{ ref: string; asset: ImageAsset }[]>;
+  clear(): Promise<void>;
+}
+
+// Chaves antigas do localStorage (também usadas pelo backend de localStorage)
+const NOTES_KEY = "atlas_timeline_notes";
+const CALENDARS_KEY = "atlas_timeline_calendars";
+const LEGACY_CALENDAR_KEY = "atlas_timeline_calendar"; // calendário único, antes de haver vários
+const TRASH_KEY = "atlas_timeline_trash";
+const TAG_STYLES_KEY = "atlas_timeline_tag_styles";
+
+const emptyTrash = (): Trash => ({ notes: [], snapshots: [] });
+
+const IMAGE_PREFIX = "img:";
+export const isImageRef = (src: string) => src.startsWith(IMAGE_PREFIX);
+
+// Imagens gravadas antes da biblioteca eram só o blob
+const toAsset = (id: string, value: ImageAsset | Blob | undefined): ImageAsset | undefined =>
+  value instanceof Blob ? { id, blob: value, createdAt: 0 } : value;
+
+export function blobToDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export async function dataURLToBlob(url: string): Promise<Blob> {
+  return (await fetch(url)).blob();
+}
+
+// ------------------ IndexedDB ------------------
+const DB_NAME = "atlas_timeline";
+const DB_VERSION = 2; // 2: lixeira
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Resolve quando a transação termina (e não só o último pedido), para que a escrita esteja gravada
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transação cancelada"));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = (e) => {
+    const db = req.result;
+    if (e.oldVersion < 1) {
+      db.createObjectStore("notes", { keyPath: "id" });
+      db.createObjectStore("calendars"); // chave = posição (o primeiro é o principal)
+      db.createObjectStore("images");
+      db.createObjectStore("meta");
+    }
+    if (e.oldVersion < 2) db.createObjectStore("trash"); // um registro só, chave "trash"
+  };
+  return request(req);
+}
+
+async function createIndexedDBStorage(): Promise<StorageAdapter> {
+  const db = await openDatabase();
+  const adapter: StorageAdapter = {
+    kind: "indexeddb",
+    async loadNotes() {
+      const notes: Note[] = await request(db.transaction("notes").objectStore("notes").getAll());
+      return notes.sort((a, b) => a.createdAt - b.createdAt);
+    },
+    async saveNotes(notes) {
+      const tx = db.transaction("notes", "readwrite");
+      const store = tx.objectStore("notes");
+      store.clear();
+      notes.forEach((n) => store.put(n));
+      await done(tx);
+    },
+    async loadCalendars() {
+      const list: AtlasCalendar[] = await request(db.transaction("calendars").objectStore("calendars").getAll());
+      return list.length ? list : undefined;
+    },
+    async saveCalendars(calendars) {
+      const tx = db.transaction("calendars", "readwrite");
+      const store = tx.objectStore("calendars");
+      store.clear();
+      calendars.forEach((c, i) => store.put(c, i));
+      await done(tx);
+    },
+    async loadTrash() {
+      return (await request(db.transaction("trash").objectStore("trash").get("trash"))) ?? emptyTrash();
+    },
+    async saveTrash(trash) {
+      const tx = db.transaction("trash", "readwrite");
+      tx.objectStore("trash").put(trash, "trash");
+      await done(tx);
+    },
+    // cores e ícones das tags ficam no "meta", sem precisar de outra versão do banco
+    async loadTagStyles() {
+      return (await request(db.transaction("meta").objectStore("meta").get("tagStyles"))) ?? {};
+    },
+    async saveTagStyles(styles) {
+      const tx = db.transaction("meta", "readwrite");
+      tx.objectStore("meta").put(styles, "tagStyles");
+      await done(tx);
+    },
+    async putImage(asset) {
+      const tx = db.transaction("images", "readwrite");
+      const store = tx.objectStore("images");
+      // já existe (mesmo conteúdo): mantém a legenda e o texto alternativo que ela tem
+      const existing = await request(store.getKey(asset.id));
+      if (existing === undefined) store.put(asset, asset.id);
+      await done(tx);
+      return IMAGE_PREFIX + asset.id;
+    },
+    async imageRef(asset) {
+      return IMAGE_PREFIX + asset.id;
+    },
+    async getImage(ref) {
+      if (!isImageRef(ref)) return undefined;
+      const id = ref.slice(IMAGE_PREFIX.length);
+      return toAsset(id, await request(db.transaction("images").objectStore("images").get(id)));
+    },
+    async updateImage(ref, meta) {
+      if (!isImageRef(ref)) return;
+      const id = ref.slice(IMAGE_PREFIX.length);
+      const tx = db.transaction("images", "readwrite");
+      const store = tx.objectStore("images");
+      const asset = toAsset(id, await request(store.get(id)));
+      if (asset) store.put({ ...asset, ...meta }, id);
+      await done(tx);
+    },
+    async listImages() {
+      const store = db.transaction("images").objectStore("images");
+      const [keys, values] = await Promise.all([request(store.getAllKeys()), request(store.getAll())]);
+      return keys.map((k, i) => ({ ref: IMAGE_PREFIX + String(k), asset: toAsset(String(k), values[i])! }));
+    },
+    async clear() {
+      const stores = ["notes", "calendars", "images", "trash", "meta"];
+      const tx = db.transaction(stores, "readwrite");
+      stores.forEach((name) => tx.objectStore(name).clear());
+      // a migração do localStorage já foi feita: zerar não deve trazer de volta o que estava lá
+      tx.objectStore("meta").put(Date.now(), "migratedFromLocalStorage");
+      await done(tx);
+    },
+  };
+  await migrateFromLocalStorage(db, adapter);
+  return adapter;
+}
+
+/**
+ * Copia uma única vez o que estava no localStorage para o IndexedDB: notas,
+ * calendários, lixeira e as imagens em base64, que viram blobs no banco. As
+ * chaves antigas só são apagadas depois que tudo foi gravado.
+ */
+async function migrateFromLocalStorage(db: IDBDatabase, adapter: StorageAdapter) {
+  const migrated = await request(db.transaction("meta").objectStore("meta").get("migratedFromLocalStorage"));
+  if (migrated) return;
+
+  const rawNotes = localStorage.getItem(NOTES_KEY);
+  const rawCalendars = localStorage.getItem(CALENDARS_KEY);
+  const rawLegacy = localStorage.getItem(LEGACY_CALENDAR_KEY);
+  const rawTrash = localStorage.getItem(TRASH_KEY);
+  const moveImages = async (notes: Note[]) => {
+    for (const n of notes) {
+      if (!n.images?.length) continue;
+      n.images = await Promise.all(n.images.map(async (src) => {
+        if (!src.startsWith("data:")) return src;
+        const blob = await dataURLToBlob(src);
+        return adapter.putImage({ id: await hashBlob(blob), blob, createdAt: Date.now() });
+      }));
+    }
+    return notes;
+  };
+  if (rawNotes) await adapter.saveNotes(await moveImages(JSON.parse(rawNotes)));
+  if (rawTrash) {
+    const trash: Trash = JSON.parse(rawTrash);
+    await moveImages(trash.notes.map((t) => t.note));
+    for (const snapshot of trash.snapshots) await moveImages(snapshot.notes);
+    await adapter.saveTrash(trash);
+  }
+  const calendars: AtlasCalendar[] | undefined = rawCalendars
+    ? JSON.parse(rawCalendars)
+    : rawLegacy ? [JSON.parse(rawLegacy)] : undefined;
+  if (calendars) await adapter.saveCalendars(calendars);
+
+  const tx = db.transaction("meta", "readwrite");
+  tx.objectStore("meta").put(Date.now(), "migratedFromLocalStorage");
+  await done(tx);
+  [NOTES_KEY, CALENDARS_KEY, LEGACY_CALENDAR_KEY, TRASH_KEY].forEach((k) => localStorage.removeItem(k));
+}
+
+// ------------------ localStorage (sem IndexedDB) ------------------
+function createLocalStorage(): StorageAdapter {
+  const write = (key: string, value: unknown) => {
+    localStorage.setItem(key, JSON.stringify(value)); // lança QuotaExceededError quando enche
+  };
+  return {
+    kind: "localstorage",
+    async loadNotes() {
+      return JSON.parse(localStorage.getItem(NOTES_KEY) || "[]");
+    },
+    async saveNotes(notes) {
+      write(NOTES_KEY, notes);
+    },
+    async loadCalendars() {
+      const saved = localStorage.getItem(CALENDARS_KEY);
+      if (saved) return JSON.parse(saved);
+      const legacy = localStorage.getItem(LEGACY_CALENDAR_KEY);
+      return legacy ? [JSON.parse(legacy)] : undefined;
+    },
+    async saveCalendars(calendars) {
+      write(CALENDARS_KEY, calendars);
+    },
+    async loadTrash() {
+      const saved = localStorage.getItem(TRASH_KEY);
+      return saved ? JSON.parse(saved) : emptyTrash();
+    },
+    async saveTrash(trash) {
+      write(TRASH_KEY, trash);
+    },
+    async loadTagStyles() {
+      return JSON.parse(localStorage.getItem(TAG_STYLES_KEY) || "{}");
+    },
+    async saveTagStyles(styles) {
+      write(TAG_STYLES_KEY, styles);
+    },
+    // sem banco de imagens: a nota guarda a própria imagem (já reduzida) em base64
+    putImage: (asset) => blobToDataURL(asset.blob),
+    imageRef: (asset) => blobToDataURL(asset.blob),
+    async getImage() {
+      return undefined;
+    },
+    async updateImage() {},
+    async listImages() {
+      return [];
+    },
+    async clear() {
+      [NOTES_KEY, CALENDARS_KEY, LEGACY_CALENDAR_KEY, TRASH_KEY, TAG_STYLES_KEY].forEach((k) => localStorage.removeItem(k));
+    },
+  };
+}
+
+// IndexedDB quando o navegador deixa abrir o banco; senão, o localStorage de antes
+export async function openStorage(): Promise<StorageAdapter> {
+  if (typeof indexedDB === "undefined") return createLocalStorage();
+  try {
+    return await createIndexedDBStorage();
+  } catch (err) {
+    console.warn("IndexedDB indisponível, usando localStorage", err);
+    return createLocalStorage();
+  }
+}
@@ -0,0 +1,153 @@
+import type { Note, TagStyle, TagStyles } from "./types";
+import { normalizeText } from "./dateParser";
+
+/**
+ * Tags hierárquicas: "Reinos/Varn" é filha de "Reinos". Filtrar (ou
+ * pesquisar tag:) por uma tag inclui as filhas. Comparação sem acentos
+ * nem maiúsculas.
+ */
+export const TAG_SEPARATOR = "/";
+
+export type TagMode = "ANY" | "ALL";
+
+// Filtro da timeline: `include` com qualquer uma (ANY) ou todas (ALL); nenhuma das `exclude`
+export type TagFilter = { mode: TagMode; include: string[]; exclude: string[] };
+
+export const emptyTagFilter: TagFilter = { mode: "ANY", include: [], exclude: [] };
+
+export const isTagFilterEmpty = (f: TagFilter) => !f.include.length && !f.exclude.length;
+
+const key = (tag: string) => tag.split(TAG_SEPARATOR).map(normalizeText).filter(Boolean).join(TAG_SEPARATOR);
+
+// `tag` é `ancestor` ou descende dela
+export function tagMatches(tag: string, ancestor: string): boolean {
+  const t = key(tag), a = key(ancestor);
+  return !!a && (t === a || t.startsWith(a + TAG_SEPARATOR));
+}
+
+export function matchesTagFilter(tags: string[] = [], f: TagFilter): boolean {
+  const has = (wanted: string) => tags.some((t) => tagMatches(t, wanted));
+  if (f.exclude.some(has)) return false;
+  if (!f.include.length) return true;
+  return f.mode === "ALL" ? f.include.every(has) : f.include.some(has);
+}
+
+// "Reinos/Varn/Norte" → ["Reinos", "Reinos/Varn", "Reinos/Varn/Norte"]
+export function tagAncestors(tag: string): string[] {
+  const parts = tag.split(TAG_SEPARATOR).map((p) => p.trim()).filter(Boolean);
+  return parts.map((_, i) => parts.slice(0, i + 1).join(TAG_SEPARATOR));
+}
+
+export type TagNode = { path: string; name: string; depth: number; count: number; children: TagNode[] };
+
+/**
+ * Árvore das tags usadas nas notas, com os pais implícitos ("Reinos" existe
+ * se alguma nota tem "Reinos/Varn"). `count` é o número de notas com a tag
+ * ou com alguma filha — cada nota conta uma vez.
+ */
+export function tagTree(notes: Note[]): TagNode[] {
+  const roots: TagNode[] = [];
+  const nodes = new Map<string, TagNode>();
+  const counted = new Map<string, Set<string>>();
+  for (const n of notes) {
+    for (const tag of n.tags ?? []) {
+      let siblings = roots;
+      tagAncestors(tag).forEach((path, depth) => {
+        const k = key(path);
+        let node = nodes.get(k);
+        if (!node) {
+          node = { path, name: path.split(TAG_SEPARATOR).pop()!.trim(), depth, count: 0, children: [] };
+          nodes.set(k, node);
+          siblings.push(node);
+        }
+        const ids = counted.get(k) ?? new Set<string>();
+        if (!ids.has(n.id)) {
+          ids.add(n.id);
+          node.count++;
+        }
+        counted.set(k, ids);
+        siblings = node.children;
+      });
+    }
+  }
+  const sort = (list: TagNode[]) => {
+    list.sort((a, b) => a.name.localeCompare(b.name));
+    list.forEach((x) => sort(x.children));
+  };
+  sort(roots);
+  return roots;
+}
+
+// Árvore em lista, pais antes das filhas (para menus)
+export const flattenTags = (tree: TagNode[]): TagNode[] => tree.flatMap((n) => [n, ...flattenTags(n.children)]);
+
+// ------------------ Manutenção ------------------
+const isSelfOrChild = (tag: string, of: string) => tag === of || tag.startsWith(of + TAG_SEPARATOR);
+
+// Troca `tag` e as filhas na lista; repetidas viram uma (mantém a primeira grafia)
+function replaceTag(tags: string[], from: string, to?: string): string[] {
+  const out: string[] = [];
+  for (const t of tags) {
+    const next = isSelfOrChild(t, from) ? (to == null ? undefined : to + t.slice(from.length)) : t;
+    if (next && !out.includes(next)) out.push(next);
+  }
+  return out;
+}
+
+function editTags(notes: Note[], from: string, to?: string): Note[] {
+  return notes.map((n) => n.tags?.some((t) => isSelfOrChild(t, from)) ? { ...n, tags: replaceTag(n.tags, from, to) } : n);
+}
+
+// Renomeia a tag (e as filhas: "Reinos/Varn" → "Nações/Varn"); renomear para uma tag que já existe junta as duas
+export const renameTag = (notes: Note[], from: string, to: string) => editTags(notes, from, to);
+
+export const mergeTags = (notes: Note[], sources: string[], target: string) =>
+  sources.filter((t) => t !== target).reduce((ns, t) => renameTag(ns, t, target), notes);
+
+// Tira a tag (e as filhas) de todas as notas
+export const deleteTag = (notes: Note[], tag: string) => editTags(notes, tag);
+
+// Filtro depois de renomear (ou excluir, sem `to`) uma tag
+export function renameInFilter(f: TagFilter, from: string, to?: string): TagFilter {
+  const fix = (list: string[]) => replaceTag(list, from, to);
+  return { ...f, include: fix(f.include), exclude: fix(f.exclude) };
+}
+
+// Leva as cores junto com a renomeação; a tag de destino mantém a sua, se já tinha
+export function renameTagStyles(styles: TagStyles, from: string, to?: string): TagStyles {
+  const out: TagStyles = {};
+  for (const [tag, style] of Object.entries(styles)) {
+    if (!isSelfOrChild(tag, from)) out[tag] = style;
+  }
+  if (to == null) return out;
+  for (const [tag, style] of Object.entries(styles)) {
+    const next = isSelfOrChild(tag, from) ? to + tag.slice(from.length) : undefined;
+    if (next && !out[next]) out[next] = style;
+  }
+  return out;
+}
+
+// Estilo da tag ou da mãe mais próxima que tenha um
+export function styleOf(tag: string, styles: TagStyles): TagStyle | undefined {
+  return tagAncestors(tag).reverse().map((t) => styles[t]).find((s) => s && (s.color || s.icon));
+}
+
+export type TagUsage = { tag: string; count: number; similar: string[] };
+
+// Grafia para achar variações da mesma tag: "Guerra", "guerra" e "Guerras"
+const stem = (tag: string) => key(tag).replace(/s$/, "");
+
+/**
+ * Cada tag exata usada nas notas, com o número de notas e as outras tags
+ * que parecem ser a mesma (maiúsculas, acentos, plural) — candidatas a juntar.
+ */
+export function tagUsage(notes: Note[]): TagUsage[] {
+  const counts = new Map<string, number>();
+  notes.forEach((n) => new Set(n.tags ?? []).forEach((t) => counts.set(t, (counts.get(t) ?? 0) + 1)));
+  const tags = Array.from(counts.keys()).sort((a, b) => a.localeCompare(b));
+  return tags.map((tag) => ({
+    tag,
+    count: counts.get(tag)!,
+    similar: tags.filter((t) => t !== tag && stem(t) === stem(tag)),
+  }));
+}
@@ -0,0 +1,103 @@
+export const LEVELS = ["ERA","MILLENNIUM","CENTURY","DECADE","YEAR"] as const;
+export type Level = typeof LEVELS[number];
+
+// Marco de contagem dos anos (União, fundação do império, Cataclismo...)
+export type Epoch = {
+  id: string;
+  name: string;
+  before: string; // abreviação para anos antes do marco, ex.: "a.U."
+  after: string;  // abreviação para anos depois do marco (vazia = sem sufixo)
+  offset: number; // ano 0 desta época contado na primeira época da lista
+};
+
+// Ciclo recorrente (lua, estações, marés, retorno de um cometa). A primeira fase começa
+// no dia da âncora e o ciclo se repete a cada `period` dias (pode ser fracionário: 29.5).
+export type Cycle = {
+  id: string;
+  name: string;
+  period: number;
+  anchor: { year: number; month: number; day: number }; // ano com sinal na época base
+  phases: string[]; // fases em ordem, dividindo o período em partes iguais
+};
+
+export type AtlasCalendar = {
+  id: string;
+  name: string;
+  anchorDay: number; // dia absoluto em que começa o ano 0 deste calendário (0 no principal)
+  daysOfWeek: string[];
+  months: { name: string; days: number }[];
+  yearsPerCentury: number;
+  centuriesPerMillennium: number;
+  decadesPerCentury: number;
+  epochs: Epoch[]; // a primeira é a época base (offset 0)
+  // Dia da semana conhecido de uma data ("1 Lume 0 foi um Dya"); ano com sinal na época base.
+  // Sem âncora, o dia 1 do mês 1 do ano 0 é o primeiro dia da semana.
+  weekAnchor?: { year: number; month: number; day: number; weekday: number };
+  // Ano bissexto a cada `every` anos, exceto a cada `except`; o dia extra vai para `month` (1-based), se houver
+  leap?: { every: number; except?: number; month?: number };
+  // Dias que não pertencem a nenhum mês (festivais); afterMonth 0 = antes do primeiro mês
+  intercalaryDays?: { name: string; afterMonth: number; leapOnly?: boolean }[];
+  cycles?: Cycle[];
+};
+
+// Campos que normalmente são calculados a partir do ano
+export type DerivedField = "millennium" | "century" | "decade";
+
+export type AtlasDate = {
+  era?: string;
+  millennium?: number;
+  century?: number;
+  decade?: number;
+  year?: number;
+  month?: number;
+  day?: number;
+  intercalary?: number; // índice em AtlasCalendar.intercalaryDays (no lugar de mês/dia)
+  // Sentido em relação ao marco da época: antes (AU), depois (DU) ou o próprio ano 0.
+  // Os valores vêm da antiga referência fixa à União e foram mantidos pelos arquivos salvos.
+  relativeEra?: "AU" | "DU" | "ZERO";
+  epoch?: string; // id da época; ausente = época base
+  calendar?: string; // id do calendário em que a data foi registrada; ausente = principal
+  overrides?: DerivedField[]; // campos derivados fixados manualmente
+  approximate?: boolean; // "c. 300": o valor é uma estimativa
+  // Janela de incerteza "entre 200 e 250": `year` é o mais cedo e este o mais tarde
+  // (ano com sinal, na época da data; negativo = antes do marco)
+  latestYear?: number;
+};
+
+export type Note = {
+  id: string;
+  title: string;
+  description?: string;
+  date: AtlasDate;
+  endDate?: AtlasDate; // presente em períodos (reinados, guerras, eras)
+  level: Level;
+  images?: string[];
+  pinned?: boolean;
+  weight?: number;
+  createdAt: number;
+  tags?: string[];
+  relations?: Relation[]; // ligações desta nota para outras (as de volta são calculadas)
+};
+
+// Tipos de relação entre notas; ver relations.ts para os rótulos e o sentido inverso
+export const RELATION_TYPES = ["CAUSE", "CONSEQUENCE", "PART_OF", "CONTEMPORARY", "CONTRADICTS"] as const;
+export type RelationType = typeof RELATION_TYPES[number];
+
+export type Relation = { type: RelationType; target: string };
+
+// Lixeira: notas excluídas e timelines inteiras guardadas pelo "Zerar Timeline"
+export type TrashedNote = { note: Note; deletedAt: number };
+
+export type TimelineSnapshot = {
+  id: string;
+  label: string;
+  createdAt: number;
+  notes: Note[];
+  calendars: AtlasCalendar[];
+};
+
+export type Trash = { notes: TrashedNote[]; snapshots: TimelineSnapshot[] };
+
+// Aparência de uma tag (pela tag exata; as filhas herdam da mãe mais próxima)
+export type TagStyle = { color?: string; icon?: string };
+export type TagStyles = Record<string, TagStyle>;